@@ -0,0 +1,107 @@
+import { beginCell, toNano, Address } from '@ton/core';
+import { TimeoutError } from './errors';
+import { TonConnectionManager } from './TonConnectionManager';
+import { TonEmulatorTransport } from './TonEmulatorTransport';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon art'.split(' ');
+const PATH = [44, 607, 0, 0, 0, 0];
+const DESTINATION = Address.parse('EQBNVUFfKt2QgqKL5vZvnyP50wmniCFP2ASOKAE-g2noRDlR');
+
+describe('TonConnectionManager', () => {
+    let emulator: TonEmulatorTransport;
+    let manager: TonConnectionManager;
+    let events: string[];
+    let opened: number;
+    beforeEach(async () => {
+        emulator = await TonEmulatorTransport.fromMnemonic(MNEMONIC);
+        opened = 0;
+        manager = new TonConnectionManager(async () => {
+            opened++;
+            return emulator;
+        }, { pollInterval: 10 });
+        events = [];
+        for (const e of ['connected', 'disconnected', 'app-opened', 'app-closed', 'locked'] as const) {
+            manager.on(e, () => events.push(e));
+        }
+    });
+
+    it('should wait for app', async () => {
+        emulator.lock();
+        const waiting = manager.waitForApp({ timeout: 1000 });
+        setTimeout(() => {
+            emulator.unlock();
+            emulator.openApp('BOLOS');
+        }, 30);
+        setTimeout(() => emulator.openApp('TON'), 60);
+        await waiting;
+        expect(events).toEqual(['connected', 'locked', 'app-closed', 'app-opened']);
+    });
+
+    it('should time out waiting for app', async () => {
+        emulator.openApp('BOLOS');
+        await expect(manager.waitForApp({ timeout: 50 })).rejects.toThrow(TimeoutError);
+    });
+
+    it('should time out waiting for app when device doesn\'t answer', async () => {
+        jest.spyOn(emulator, 'exchange').mockImplementation(() => new Promise(() => { }));
+        await expect(manager.waitForApp({ timeout: 50 })).rejects.toThrow(TimeoutError);
+    });
+
+    it('should reopen transport after unanswered poll', async () => {
+        const stale = emulator;
+        jest.spyOn(stale, 'exchange').mockImplementation(() => new Promise(() => { }));
+        await expect(manager.waitForApp({ timeout: 50 })).rejects.toThrow(TimeoutError);
+
+        emulator = await TonEmulatorTransport.fromMnemonic(MNEMONIC);
+        expect(await manager.getVersion()).toBe('2.2.0');
+        await manager.waitForApp({ timeout: 300 });
+        expect(opened).toBe(2);
+        expect(events).toEqual(['connected', 'disconnected', 'connected', 'app-opened']);
+    });
+
+    it('should reconnect and retry idempotent calls', async () => {
+        const address = await manager.getAddress(PATH);
+
+        // Device is dropped in the middle of a call
+        const stale = emulator;
+        emulator = await TonEmulatorTransport.fromMnemonic(MNEMONIC);
+        const exchange = stale.exchange.bind(stale);
+        jest.spyOn(stale, 'exchange').mockImplementationOnce(async (apdu) => {
+            stale.disconnect();
+            return exchange(apdu);
+        });
+        expect(await manager.getAddress(PATH)).toEqual(address);
+        expect(opened).toBe(2);
+        expect(events).toEqual(['connected', 'app-opened', 'disconnected', 'connected', 'app-opened']);
+    });
+
+    it('should not replay signing calls', async () => {
+        await manager.getVersion();
+        const stale = emulator;
+        emulator = await TonEmulatorTransport.fromMnemonic(MNEMONIC);
+        stale.disconnect();
+        await expect(manager.signTransaction(PATH, {
+            to: DESTINATION,
+            sendMode: 3,
+            seqno: 1,
+            timeout: 1700000000,
+            bounce: true,
+            amount: toNano('1'),
+            payload: { type: 'comment', text: 'Hello' }
+        })).resolves.toBeDefined();
+        expect(opened).toBe(2);
+
+        // Connection lost during signing is reported to the caller
+        const exchange = emulator.exchange.bind(emulator);
+        let dropped = false;
+        jest.spyOn(emulator, 'exchange').mockImplementation(async (apdu) => {
+            if (apdu[1] === 0x09 && !dropped) {
+                dropped = true;
+                emulator.disconnect();
+            }
+            return exchange(apdu);
+        });
+        await expect(manager.signData(PATH, { type: 'app-data', domain: 'ton.org', data: beginCell().endCell() })).rejects.toThrow('Device was disconnected');
+        expect(opened).toBe(2);
+    });
+});
@@ -0,0 +1,205 @@
+import Transport from "@ledgerhq/hw-transport";
+import EventEmitter from "events";
+import { delay } from "teslabot";
+import { DeviceLockedError, TimeoutError, TonTransportError, WrongAppError } from "./errors";
+import { TonTransport } from "./TonTransport";
+import { MemoryPublicKeyStore, PublicKeyStore } from "./utils/publicKeyCache";
+import { withCancellation } from "./utils/cancellation";
+
+export type TonConnectionEvent = 'connected' | 'disconnected' | 'app-opened' | 'app-closed' | 'locked';
+
+type AppState = 'unknown' | 'open' | 'closed' | 'locked';
+
+// Errors of @ledgerhq transports that mean the device is gone
+const DISCONNECT_ERRORS = ['DisconnectedDevice', 'DisconnectedDeviceDuringOperation', 'TransportInterfaceNotAvailable'];
+
+function isDisconnectError(e: any) {
+    return !!e && DISCONNECT_ERRORS.includes(e.name);
+}
+
+/**
+ * Keeps a TonTransport usable across device sleeps, app switches and dropped connections.
+ * Transport is reopened with the factory when needed. Idempotent calls are retried after
+ * a reconnect, calls that need the user's confirmation are never replayed.
+ */
+export class TonConnectionManager {
+    readonly factory: () => Promise<Transport>;
+    #events = new EventEmitter();
+    #publicKeyStore: PublicKeyStore | null;
+    #experimentalLayouts: boolean;
+    #retries: number;
+    #pollInterval: number;
+    #current: Promise<TonTransport> | null = null;
+    #transport: Transport | null = null;
+    #state: AppState = 'unknown';
+
+    constructor(factory: () => Promise<Transport>, opts?: { retries?: number, pollInterval?: number, publicKeyStore?: PublicKeyStore | null, experimentalLayouts?: boolean }) {
+        this.factory = factory;
+        this.#retries = opts?.retries ?? 1;
+        this.#pollInterval = opts?.pollInterval ?? 1000;
+        this.#experimentalLayouts = opts?.experimentalLayouts ?? false;
+
+        // Keys survive reconnects, the seed is checked again for every new transport
+        this.#publicKeyStore = opts?.publicKeyStore === undefined ? new MemoryPublicKeyStore() : opts.publicKeyStore;
+    }
+
+    on(event: TonConnectionEvent, listener: () => void) {
+        this.#events.on(event, listener);
+    }
+
+    off(event: TonConnectionEvent, listener: () => void) {
+        this.#events.off(event, listener);
+    }
+
+    //
+    // Connection
+    //
+
+    /**
+     * Returns the current transport, opening a new one if there is none
+     */
+    async connect(): Promise<TonTransport> {
+        if (!this.#current) {
+            const current = (async () => {
+                const transport = await this.factory();
+                transport.on('disconnect', () => this.#drop(transport));
+                this.#transport = transport;
+                this.#events.emit('connected');
+                return new TonTransport(transport, { publicKeyStore: this.#publicKeyStore, experimentalLayouts: this.#experimentalLayouts });
+            })();
+            this.#current = current;
+            current.catch(() => {
+                if (this.#current === current) {
+                    this.#current = null;
+                }
+            });
+        }
+        return this.#current;
+    }
+
+    async close() {
+        const transport = this.#transport;
+        if (transport) {
+            this.#drop(transport);
+        }
+    }
+
+    /**
+     * Waits until the device is connected, unlocked and the TON app is open
+     */
+    async waitForApp(opts?: { timeout?: number }): Promise<TonTransport> {
+        const timeout = opts?.timeout ?? 30000;
+        const deadline = Date.now() + timeout;
+        let lastError: any = null;
+        while (true) {
+            try {
+                // A locked or stalled device may never answer, so each poll is bounded by the deadline
+                if (await withCancellation({ timeout: Math.max(deadline - Date.now(), 0) }, (signal) => this.isAppOpen({ signal }))) {
+                    return await this.connect();
+                }
+            } catch (e) {
+                // Device could be unplugged or locked while waiting
+                lastError = e;
+
+                // Unanswered request holds the transport, so later calls get a new one from the factory
+                if (e instanceof TimeoutError && this.#transport) {
+                    this.#drop(this.#transport);
+                }
+            }
+            if (Date.now() + this.#pollInterval > deadline) {
+                throw new TimeoutError(`TON app was not opened in ${timeout}ms` + (lastError ? `: ${lastError.message}` : ''));
+            }
+            await delay(this.#pollInterval);
+        }
+    }
+
+    //
+    // Idempotent calls
+    //
+
+    isAppOpen = (...args: Parameters<TonTransport['isAppOpen']>) => this.#retrying((t) => t.isAppOpen(...args), (open) => open ? 'open' : 'closed');
+
+    getVersion = (...args: Parameters<TonTransport['getVersion']>) => this.#retrying((t) => t.getVersion(...args));
+
+    getSettings = (...args: Parameters<TonTransport['getSettings']>) => this.#retrying((t) => t.getSettings(...args));
+
+    getCapabilities = (...args: Parameters<TonTransport['getCapabilities']>) => this.#retrying((t) => t.getCapabilities(...args));
+
+    getAddress = (...args: Parameters<TonTransport['getAddress']>) => this.#retrying((t) => t.getAddress(...args));
+
+    //
+    // Calls that need confirmation
+    //
+
+    validateAddress = (...args: Parameters<TonTransport['validateAddress']>) => this.#once((t) => t.validateAddress(...args));
+
+    getAddressProof = (...args: Parameters<TonTransport['getAddressProof']>) => this.#once((t) => t.getAddressProof(...args));
+
+    signData = (...args: Parameters<TonTransport['signData']>) => this.#once((t) => t.signData(...args));
+
+    signTransaction = (...args: Parameters<TonTransport['signTransaction']>) => this.#once((t) => t.signTransaction(...args));
+
+    signMultiTransaction = (...args: Parameters<TonTransport['signMultiTransaction']>) => this.#once((t) => t.signMultiTransaction(...args));
+
+    //
+    // Implementation
+    //
+
+    #retrying = async <T>(f: (t: TonTransport) => Promise<T>, stateOf?: (res: T) => AppState): Promise<T> => {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.#once(f, stateOf);
+            } catch (e) {
+                if (!isDisconnectError(e) || attempt >= this.#retries) {
+                    throw e;
+                }
+            }
+        }
+    }
+
+    #once = async <T>(f: (t: TonTransport) => Promise<T>, stateOf: (res: T) => AppState = () => 'open'): Promise<T> => {
+        const t = await this.connect();
+        try {
+            const res = await f(t);
+            this.#setState(stateOf(res));
+            return res;
+        } catch (e) {
+            if (isDisconnectError(e)) {
+                this.#drop(t.transport);
+            } else if (e instanceof DeviceLockedError) {
+                this.#setState('locked');
+            } else if (e instanceof WrongAppError) {
+                this.#setState('closed');
+            } else if (e instanceof TonTransportError) {
+                // Only the TON app answers its own requests
+                this.#setState('open');
+            }
+            throw e;
+        }
+    }
+
+    #drop = (transport: Transport) => {
+        if (this.#transport !== transport) {
+            return;
+        }
+        this.#transport = null;
+        this.#current = null;
+        this.#state = 'unknown';
+        transport.close().catch(() => { /* Already gone */ });
+        this.#events.emit('disconnected');
+    }
+
+    #setState = (state: AppState) => {
+        if (this.#state === state) {
+            return;
+        }
+        this.#state = state;
+        if (state === 'open') {
+            this.#events.emit('app-opened');
+        } else if (state === 'closed') {
+            this.#events.emit('app-closed');
+        } else if (state === 'locked') {
+            this.#events.emit('locked');
+        }
+    }
+}
@@ -0,0 +1,857 @@
+import Transport from "@ledgerhq/hw-transport";
+import { Address, beginCell, BitString, Builder, Cell, contractAddress } from "@ton/core";
+import { deriveEd25519Path, keyPairFromSeed, pbkdf2_sha512, sha256_sync, sign } from '@ton/crypto';
+import { isVersionAtLeast, parseVersion } from "./utils/capabilities";
+import { DEFAULT_SUBWALLET_ID, getInit, maxSubwalletId, WalletVersion } from "./utils/getInit";
+import { writeUint16, writeUint32, writeUint8 } from "./utils/ledgerWriter";
+
+const LEDGER_SYSTEM = 0xB0;
+const LEDGER_CLA = 0xe0;
+const INS_VERSION = 0x03;
+const INS_ADDRESS = 0x05;
+const INS_SIGN_TX = 0x06;
+const INS_PROOF = 0x08;
+const INS_SIGN_DATA = 0x09;
+const INS_SETTINGS = 0x0A;
+
+const SW_OK = 0x9000;
+const SW_DENY = 0x6985;
+const SW_WRONG_P1P2 = 0x6A86;
+const SW_WRONG_DATA_LENGTH = 0x6A87;
+const SW_INS_NOT_SUPPORTED = 0x6D00;
+const SW_CLA_NOT_SUPPORTED = 0x6E00;
+const SW_APP_NOT_OPEN = 0x6E01;
+const SW_LOCKED = 0x5515;
+const SW_TX_PARSING_FAIL = 0xB005;
+const SW_TX_HASH_FAIL = 0xB006;
+const SW_BAD_STATE = 0xB007;
+const SW_BAD_BIP32_PATH = 0xB0BD;
+const SW_BLIND_SIGNING_DISABLED = 0xBD00;
+
+class EmulatorError extends Error {
+    readonly statusWord: number;
+    constructor(statusWord: number) {
+        super('Emulator status 0x' + statusWord.toString(16));
+        this.statusWord = statusWord;
+    }
+}
+
+// Same name as the error of real transports
+class DisconnectedDevice extends Error {
+    constructor() {
+        super('Device was disconnected');
+        this.name = 'DisconnectedDevice';
+    }
+}
+
+type CellRef = { depth: number, hash: Buffer };
+
+//
+// Reader for request payloads
+//
+
+class Reader {
+    #buf: Buffer;
+    #offset = 0;
+
+    constructor(buf: Buffer) {
+        this.#buf = buf;
+    }
+
+    get remaining() {
+        return this.#buf.length - this.#offset;
+    }
+
+    readBuffer(n: number) {
+        if (this.#offset + n > this.#buf.length) {
+            throw new EmulatorError(SW_TX_PARSING_FAIL);
+        }
+        let r = this.#buf.subarray(this.#offset, this.#offset + n);
+        this.#offset += n;
+        return r;
+    }
+
+    readRest() {
+        return this.readBuffer(this.remaining);
+    }
+
+    readUint8() {
+        return this.readBuffer(1)[0];
+    }
+
+    readUint16() {
+        return this.readBuffer(2).readUint16BE(0);
+    }
+
+    readUint32() {
+        return this.readBuffer(4).readUint32BE(0);
+    }
+
+    readUint64() {
+        return this.readBuffer(8).readBigUint64BE(0);
+    }
+
+    readVarUInt() {
+        let size = this.readUint8();
+        if (size === 0) {
+            return 0n;
+        }
+        return BigInt('0x' + this.readBuffer(size).toString('hex'));
+    }
+
+    readAddress() {
+        let wc = this.readUint8();
+        return new Address(wc === 0xff ? -1 : wc, Buffer.from(this.readBuffer(32)));
+    }
+
+    readCellRef(): CellRef {
+        let depth = this.readUint16();
+        let hash = Buffer.from(this.readBuffer(32));
+        return { depth, hash };
+    }
+}
+
+//
+// Cell hashing with refs known only by hash and depth, the way the device does it
+//
+
+function bitsToPaddedBuffer(bits: BitString) {
+    let res = Buffer.alloc(Math.ceil(bits.length / 8));
+    for (let i = 0; i < bits.length; i++) {
+        if (bits.at(i)) {
+            res[i >> 3] |= 0x80 >> (i % 8);
+        }
+    }
+    if (bits.length % 8 !== 0) {
+        res[bits.length >> 3] |= 0x80 >> (bits.length % 8);
+    }
+    return res;
+}
+
+function hashCell(bits: BitString, refs: CellRef[]): CellRef {
+    let d1 = refs.length;
+    let d2 = Math.ceil(bits.length / 8) + Math.floor(bits.length / 8);
+    let repr = Buffer.concat([
+        writeUint8(d1),
+        writeUint8(d2),
+        bitsToPaddedBuffer(bits),
+        ...refs.map((r) => writeUint16(r.depth)),
+        ...refs.map((r) => r.hash)
+    ]);
+    let depth = refs.length > 0 ? Math.max(...refs.map((r) => r.depth)) + 1 : 0;
+    return { depth, hash: sha256_sync(repr) };
+}
+
+function cellRefOf(cell: Cell): CellRef {
+    return { depth: cell.depth(), hash: cell.hash() };
+}
+
+function cellRefEquals(a: CellRef, b: CellRef) {
+    return a.depth === b.depth && a.hash.equals(b.hash);
+}
+
+//
+// Emulator
+//
+
+/**
+ * In-process emulator of the TON Ledger app. Handles the same APDUs as the device,
+ * signs with software keys derived from a BIP39 mnemonic and can be scripted to fail.
+ */
+export class TonEmulatorTransport extends Transport {
+
+    static async fromMnemonic(mnemonic: string[], password?: string) {
+        const seed = await pbkdf2_sha512(
+            Buffer.from(mnemonic.join(' ').normalize('NFKD'), 'utf-8'),
+            Buffer.from(('mnemonic' + (password ?? '')).normalize('NFKD'), 'utf-8'),
+            2048,
+            64
+        );
+        return new TonEmulatorTransport(seed);
+    }
+
+    readonly seed: Buffer;
+    #app = { name: 'TON', version: '2.2.0' };
+    #locked = false;
+    #rejects = 0;
+    #blindSigning = false;
+    #expertMode = false;
+    #failures: number[] = [];
+    #disabled = new Set<number>();
+    #request: { ins: number, path: number[], data: Buffer } | null = null;
+    #disconnected = false;
+
+    constructor(seed: Buffer) {
+        super();
+        this.seed = seed;
+    }
+
+    //
+    // Scripting
+    //
+
+    /**
+     * Switch the app running on the emulated device. Use 'BOLOS' for the dashboard.
+     */
+    openApp(name: string, version?: string) {
+        this.#app = { name, version: version ?? this.#app.version };
+        this.#request = null;
+    }
+
+    /**
+     * Drop the connection like an unplugged device, the transport can't be used afterwards
+     */
+    disconnect() {
+        this.#disconnected = true;
+        this.#request = null;
+        this.emit('disconnect');
+    }
+
+    lock() {
+        this.#locked = true;
+        this.#request = null;
+    }
+
+    unlock() {
+        this.#locked = false;
+    }
+
+    /**
+     * Toggle the blind signing setting of the app, disabled by default like on a device
+     */
+    setBlindSigning(enabled: boolean) {
+        this.#blindSigning = enabled;
+    }
+
+    setExpertMode(enabled: boolean) {
+        this.#expertMode = enabled;
+    }
+
+    /**
+     * Make the user reject the next confirmation screen
+     */
+    rejectNext() {
+        this.#rejects++;
+    }
+
+    /**
+     * Respond to the next exchange with the given status word
+     */
+    failNext(statusWord: number) {
+        this.#failures.push(statusWord);
+    }
+
+    /**
+     * Answer the instruction with 'instruction not supported' like an app that doesn't implement it
+     */
+    disableInstruction(ins: number) {
+        this.#disabled.add(ins);
+    }
+
+    async getKeyPair(path: number[]) {
+        return keyPairFromSeed(await deriveEd25519Path(this.seed, path));
+    }
+
+    //
+    // Transport
+    //
+
+    async exchange(apdu: Buffer): Promise<Buffer> {
+        if (this.#disconnected) {
+            throw new DisconnectedDevice();
+        }
+        try {
+            let data = await this.#handle(apdu);
+            return Buffer.concat([data, writeUint16(SW_OK)]);
+        } catch (e) {
+            if (e instanceof EmulatorError) {
+                return writeUint16(e.statusWord);
+            }
+            throw e;
+        }
+    }
+
+    async close() {
+        // Nothing to release
+    }
+
+    async #handle(apdu: Buffer): Promise<Buffer> {
+        const failure = this.#failures.shift();
+        if (failure !== undefined) {
+            throw new EmulatorError(failure);
+        }
+        if (this.#locked) {
+            throw new EmulatorError(SW_LOCKED);
+        }
+        if (apdu.length < 5 || apdu.length !== 5 + apdu[4]) {
+            throw new EmulatorError(SW_WRONG_DATA_LENGTH);
+        }
+        const [cla, ins, p1, p2] = apdu;
+        const data = apdu.subarray(5);
+
+        if (cla === LEDGER_SYSTEM) {
+            if (ins !== 0x01) {
+                throw new EmulatorError(SW_INS_NOT_SUPPORTED);
+            }
+            const name = Buffer.from(this.#app.name);
+            const version = Buffer.from(this.#app.version);
+            return Buffer.concat([
+                writeUint8(0x01),
+                writeUint8(name.length),
+                name,
+                writeUint8(version.length),
+                version,
+                writeUint8(1),
+                writeUint8(0)
+            ]);
+        }
+        if (cla !== LEDGER_CLA) {
+            throw new EmulatorError(SW_CLA_NOT_SUPPORTED);
+        }
+        if (this.#app.name !== 'TON') {
+            throw new EmulatorError(SW_APP_NOT_OPEN);
+        }
+        if (this.#disabled.has(ins)) {
+            throw new EmulatorError(SW_INS_NOT_SUPPORTED);
+        }
+
+        switch (ins) {
+            case INS_VERSION:
+                return Buffer.from(this.#app.version.split('.').map((v) => parseInt(v, 10)));
+            case INS_ADDRESS:
+                return this.#handleAddress(p1, p2, data);
+            case INS_SETTINGS:
+                if (!isVersionAtLeast(parseVersion(this.#app.version), '2.1.0')) {
+                    throw new EmulatorError(SW_INS_NOT_SUPPORTED);
+                }
+                return writeUint8((this.#blindSigning ? 0x01 : 0x00) | (this.#expertMode ? 0x02 : 0x00));
+            case INS_PROOF:
+                return this.#handleProof(p1, p2, data);
+            case INS_SIGN_TX:
+            case INS_SIGN_DATA:
+                return this.#handleChunked(ins, p1, p2, data);
+            default:
+                throw new EmulatorError(SW_INS_NOT_SUPPORTED);
+        }
+    }
+
+    //
+    // Handlers
+    //
+
+    async #handleAddress(p1: number, p2: number, data: Buffer) {
+        if (p1 > 0x01) {
+            throw new EmulatorError(SW_WRONG_P1P2);
+        }
+        const reader = new Reader(data);
+        const path = readPath(reader);
+        readWalletSpecifiers(reader, p2);
+        if (reader.remaining > 0) {
+            throw new EmulatorError(SW_WRONG_DATA_LENGTH);
+        }
+        const keyPair = await this.getKeyPair(path);
+        if (p1 === 0x01) {
+            this.#confirm();
+        }
+        return keyPair.publicKey;
+    }
+
+    async #handleProof(p1: number, p2: number, data: Buffer) {
+        if (p1 !== 0x01) {
+            throw new EmulatorError(SW_WRONG_P1P2);
+        }
+        const reader = new Reader(data);
+        const path = readPath(reader);
+        const { walletVersion, subwalletId } = readWalletSpecifiers(reader, p2);
+        const domain = reader.readBuffer(reader.readUint8());
+        const timestamp = reader.readUint64();
+        const payload = reader.readRest();
+
+        const keyPair = await this.getKeyPair(path);
+        const workchain = (p2 & 0x02) ? -1 : 0;
+        const testOnly = (p2 & 0x01) !== 0;
+        const address = contractAddress(workchain, getInit(workchain, keyPair.publicKey, walletVersion, subwalletId, testOnly));
+
+        const wc = Buffer.alloc(4);
+        wc.writeInt32BE(workchain);
+        const domainLength = Buffer.alloc(4);
+        domainLength.writeUint32LE(domain.length);
+        const ts = Buffer.alloc(8);
+        ts.writeBigUint64LE(timestamp);
+        const message = sha256_sync(Buffer.concat([
+            Buffer.from('ton-proof-item-v2/'),
+            wc,
+            address.hash,
+            domainLength,
+            domain,
+            ts,
+            payload
+        ]));
+        const hash = sha256_sync(Buffer.concat([
+            Buffer.from([0xff, 0xff]),
+            Buffer.from('ton-connect'),
+            message
+        ]));
+
+        this.#confirm();
+        return packSignature(sign(hash, keyPair.secretKey), hash);
+    }
+
+    async #handleChunked(ins: number, p1: number, p2: number, data: Buffer) {
+        if (p1 !== 0x00) {
+            throw new EmulatorError(SW_WRONG_P1P2);
+        }
+        if (p2 & 0x01) {
+            const reader = new Reader(data);
+            this.#request = { ins, path: readPath(reader), data: Buffer.alloc(0) };
+            if (reader.remaining > 0) {
+                throw new EmulatorError(SW_WRONG_DATA_LENGTH);
+            }
+        } else {
+            if (!this.#request || this.#request.ins !== ins) {
+                this.#request = null;
+                throw new EmulatorError(SW_BAD_STATE);
+            }
+            this.#request.data = Buffer.concat([this.#request.data, data]);
+        }
+        if (p2 & 0x02) {
+            return Buffer.alloc(0);
+        }
+
+        const request = this.#request!;
+        this.#request = null;
+        const keyPair = await this.getKeyPair(request.path);
+        if (ins === INS_SIGN_TX) {
+            const hash = parseTransaction(request.data, this.#blindSigning);
+            this.#confirm();
+            return packSignature(sign(hash, keyPair.secretKey), hash);
+        } else {
+            const { message, hash } = parseSignData(request.data);
+            this.#confirm();
+            return packSignature(sign(message, keyPair.secretKey), hash);
+        }
+    }
+
+    #confirm() {
+        if (this.#rejects > 0) {
+            this.#rejects--;
+            throw new EmulatorError(SW_DENY);
+        }
+    }
+}
+
+//
+// Parsers
+//
+
+function readPath(reader: Reader) {
+    const length = reader.readUint8();
+    const path: number[] = [];
+    for (let i = 0; i < length; i++) {
+        const element = reader.readUint32();
+        if (element < 0x80000000) {
+            throw new EmulatorError(SW_BAD_BIP32_PATH);
+        }
+        path.push(element - 0x80000000);
+    }
+    if (path.length < 6 || path[0] !== 44 || path[1] !== 607) {
+        throw new EmulatorError(SW_BAD_BIP32_PATH);
+    }
+    return path;
+}
+
+function readWalletSpecifiers(reader: Reader, flags: number): { walletVersion: WalletVersion, subwalletId?: number } {
+    if (!(flags & 0x04)) {
+        return { walletVersion: 'v4' };
+    }
+    const walletVersion = readWalletVersion(reader, SW_WRONG_P1P2);
+    const subwalletId = reader.readUint32();
+    if (subwalletId > maxSubwalletId(walletVersion)) {
+        throw new EmulatorError(SW_WRONG_P1P2);
+    }
+    return { walletVersion, subwalletId };
+}
+
+function readWalletVersion(reader: Reader, statusWord: number): WalletVersion {
+    switch (reader.readUint8()) {
+        case 0x00: return 'v4';
+        case 0x02: return 'v5r1';
+        default: throw new EmulatorError(statusWord);
+    }
+}
+
+function packSignature(signature: Buffer, hash: Buffer) {
+    return Buffer.concat([
+        writeUint8(signature.length),
+        signature,
+        writeUint8(hash.length),
+        hash
+    ]);
+}
+
+function parseTransaction(data: Buffer, blindSigning: boolean) {
+    const reader = new Reader(data);
+    let walletVersion: WalletVersion = 'v4';
+    let walletId = DEFAULT_SUBWALLET_ID;
+    let count = 1;
+    switch (reader.readUint8()) {
+        case 0x00:
+            break;
+        case 0x01:
+            walletId = reader.readUint32();
+            if (reader.readUint8() !== 0x01) {
+                // Only wallets with the wallet op are emulated
+                throw new EmulatorError(SW_TX_PARSING_FAIL);
+            }
+            break;
+        case 0x02:
+            walletVersion = readWalletVersion(reader, SW_TX_PARSING_FAIL);
+            walletId = reader.readUint32();
+            count = reader.readUint8();
+            break;
+        default:
+            throw new EmulatorError(SW_TX_PARSING_FAIL);
+    }
+    if (count === 0 || count > (walletVersion === 'v5r1' ? 255 : 4)) {
+        throw new EmulatorError(SW_TX_PARSING_FAIL);
+    }
+    const seqno = reader.readUint32();
+    const timeout = reader.readUint32();
+    const orders: { sendMode: number, order: CellRef }[] = [];
+    for (let i = 0; i < count; i++) {
+        orders.push(parseMessage(reader, blindSigning));
+    }
+    if (reader.remaining > 0) {
+        throw new EmulatorError(SW_TX_PARSING_FAIL);
+    }
+
+    if (walletVersion === 'v5r1') {
+        let actions = cellRefOf(beginCell().endCell());
+        for (let o of orders) {
+            actions = hashCell(beginCell()
+                .storeUint(0x0ec3c86d, 32)
+                .storeUint(o.sendMode, 8)
+                .endCell().bits, [actions, o.order]);
+        }
+        const transfer = beginCell()
+            .storeUint(0x7369676e, 32)
+            .storeUint(walletId, 32)
+            .storeUint(timeout, 32)
+            .storeUint(seqno, 32)
+            .storeBit(1)
+            .storeBit(0)
+            .endCell();
+        return hashCell(transfer.bits, [actions]).hash;
+    }
+
+    let transfer = beginCell()
+        .storeUint(walletId, 32)
+        .storeUint(timeout, 32)
+        .storeUint(seqno, 32)
+        .storeUint(0, 8);
+    for (let o of orders) {
+        transfer = transfer.storeUint(o.sendMode, 8);
+    }
+    return hashCell(transfer.endCell().bits, orders.map((o) => o.order)).hash;
+}
+
+function parseMessage(reader: Reader, blindSigning: boolean) {
+    const amount = reader.readVarUInt();
+    const to = reader.readAddress();
+    const bounce = reader.readUint8() !== 0;
+    const sendMode = reader.readUint8();
+    const stateInit = reader.readUint8() !== 0 ? reader.readCellRef() : null;
+    let payload: CellRef | null = null;
+    if (reader.readUint8() !== 0) {
+        payload = reader.readCellRef();
+    }
+    if (reader.readUint8() !== 0) {
+        const hintType = reader.readUint32();
+        const hint = reader.readBuffer(reader.readUint16());
+        const rebuilt = rebuildPayload(hintType, hint);
+        if (!payload || (rebuilt && !cellRefEquals(rebuilt, payload))) {
+            throw new EmulatorError(SW_TX_HASH_FAIL);
+        }
+    } else if (payload && !blindSigning) {
+        throw new EmulatorError(SW_BLIND_SIGNING_DISABLED);
+    }
+
+    const refs: CellRef[] = [];
+    let order = beginCell()
+        .storeBit(0)
+        .storeBit(true)
+        .storeBit(bounce)
+        .storeBit(false)
+        .storeAddress(null)
+        .storeAddress(to)
+        .storeCoins(amount)
+        .storeBit(false)
+        .storeCoins(0)
+        .storeCoins(0)
+        .storeUint(0, 64)
+        .storeUint(0, 32);
+    if (stateInit) {
+        order = order.storeBit(true).storeBit(true);
+        refs.push(stateInit);
+    } else {
+        order = order.storeBit(false);
+    }
+    if (payload) {
+        order = order.storeBit(true);
+        refs.push(payload);
+    } else {
+        order = order.storeBit(false);
+    }
+    return { sendMode, order: hashCell(order.endCell().bits, refs) };
+}
+
+function readQueryId(reader: Reader) {
+    return reader.readUint8() !== 0 ? reader.readUint64() : 0n;
+}
+
+function finishHint(reader: Reader, b: Builder, refs: CellRef[]) {
+    if (reader.remaining > 0) {
+        throw new EmulatorError(SW_TX_PARSING_FAIL);
+    }
+    return hashCell(b.endCell().bits, refs);
+}
+
+function rebuildPayload(hintType: number, hint: Buffer): CellRef | null {
+    const reader = new Reader(hint);
+    switch (hintType) {
+        case 0x00: {
+            return cellRefOf(beginCell()
+                .storeUint(0, 32)
+                .storeBuffer(hint)
+                .endCell());
+        }
+        case 0x01:
+        case 0x02: {
+            const refs: CellRef[] = [];
+            let b = beginCell()
+                .storeUint(hintType === 0x01 ? 0x0f8a7ea5 : 0x5fcc3d14, 32)
+                .storeUint(reader.readUint8() !== 0 ? reader.readUint64() : 0n, 64);
+            if (hintType === 0x01) {
+                b = b.storeCoins(reader.readVarUInt());
+            }
+            b = b
+                .storeAddress(reader.readAddress())
+                .storeAddress(reader.readAddress());
+            if (reader.readUint8() !== 0) {
+                b = b.storeBit(1);
+                refs.push(reader.readCellRef());
+            } else {
+                b = b.storeBit(0);
+            }
+            b = b.storeCoins(reader.readVarUInt());
+            if (reader.readUint8() !== 0) {
+                b = b.storeBit(1);
+                refs.push(reader.readCellRef());
+            } else {
+                b = b.storeBit(0);
+            }
+            if (reader.remaining > 0) {
+                throw new EmulatorError(SW_TX_PARSING_FAIL);
+            }
+            return hashCell(b.endCell().bits, refs);
+        }
+        case 0x03: {
+            const refs: CellRef[] = [];
+            let b = beginCell()
+                .storeUint(0x595f07bc, 32)
+                .storeUint(readQueryId(reader), 64)
+                .storeCoins(reader.readVarUInt())
+                .storeAddress(reader.readAddress());
+            if (reader.readUint8() !== 0) {
+                b = b.storeBit(1);
+                refs.push(reader.readCellRef());
+            } else {
+                b = b.storeBit(0);
+            }
+            return finishHint(reader, b, refs);
+        }
+        case 0x09: {
+            const refs: CellRef[] = [];
+            let b = beginCell()
+                .storeUint(0x4eb1f0f9, 32)
+                .storeUint(readQueryId(reader), 64);
+            const recordType = reader.readUint8();
+            if (recordType > 0x02) {
+                throw new EmulatorError(SW_TX_PARSING_FAIL);
+            }
+            b = b.storeBuffer(sha256_sync(['wallet', 'site', 'storage'][recordType]));
+            if (reader.readUint8() !== 0) {
+                let value = beginCell();
+                if (recordType === 0x00) {
+                    value = value.storeUint(0x9fd3, 16).storeAddress(reader.readAddress());
+                    if (reader.readUint8() !== 0) {
+                        value = value.storeUint(1, 8).storeBit(1).storeUint(0x2177, 16).storeBit(0);
+                    } else {
+                        value = value.storeUint(0, 8);
+                    }
+                } else if (recordType === 0x01) {
+                    value = value.storeUint(0xad01, 16).storeBuffer(reader.readBuffer(32)).storeUint(0, 8);
+                } else {
+                    value = value.storeUint(0x7473, 16).storeBuffer(reader.readBuffer(32));
+                }
+                b = b.storeBit(1);
+                refs.push(cellRefOf(value.endCell()));
+            } else {
+                b = b.storeBit(0);
+            }
+            return finishHint(reader, b, refs);
+        }
+        case 0x0b: {
+            let b = beginCell()
+                .storeUint(0x04ded148, 32)
+                .storeUint(readQueryId(reader), 64)
+                .storeAddress(reader.readAddress());
+            const forwardPayload = reader.readCellRef();
+            b = b.storeBit(reader.readUint8() !== 0);
+            return finishHint(reader, b, [forwardPayload]);
+        }
+        case 0x0c: {
+            let b = beginCell()
+                .storeUint(0xd53276db, 32)
+                .storeUint(readQueryId(reader), 64);
+            return finishHint(reader, b, []);
+        }
+        case 0x05: {
+            let b = beginCell()
+                .storeUint(0x1000, 32)
+                .storeUint(readQueryId(reader), 64)
+                .storeCoins(reader.readVarUInt());
+            return finishHint(reader, b, []);
+        }
+        case 0x06: {
+            let b = beginCell()
+                .storeUint(0x1001, 32)
+                .storeUint(readQueryId(reader), 64)
+                .storeAddress(reader.readAddress());
+            return finishHint(reader, b, []);
+        }
+        case 0x07: {
+            let b = beginCell()
+                .storeUint(0x47d54391, 32)
+                .storeUint(readQueryId(reader), 64);
+            if (reader.readUint8() !== 0) {
+                b = b.storeUint(reader.readUint64(), 64);
+            }
+            return finishHint(reader, b, []);
+        }
+        case 0x0d: {
+            let b = beginCell()
+                .storeUint(0x595f07bc, 32)
+                .storeUint(readQueryId(reader), 64)
+                .storeCoins(reader.readVarUInt())
+                .storeAddress(reader.readAddress())
+                .storeBit(1);
+            const flags = reader.readUint8();
+            const options = beginCell()
+                .storeBit((flags & 0x01) !== 0)
+                .storeBit((flags & 0x02) !== 0)
+                .endCell();
+            return finishHint(reader, b, [cellRefOf(options)]);
+        }
+        default: {
+            // Unknown hints are not verified, only the payload hash is signed
+            return null;
+        }
+    }
+}
+
+function parseSignData(data: Buffer) {
+    const reader = new Reader(data);
+    const schema = reader.readUint32();
+    reader.readUint64();
+    const commonPart = data.subarray(0, 12);
+
+    let cell: CellRef;
+    switch (schema) {
+        case 0x754bf91b: {
+            cell = cellRefOf(beginCell().storeStringTail(reader.readRest().toString('ascii')).endCell());
+            break;
+        }
+        case 0x54b58535: {
+            const refs: CellRef[] = [];
+            let b = beginCell();
+            if (reader.readUint8() !== 0) {
+                b = b.storeBit(1).storeAddress(reader.readAddress());
+            } else {
+                b = b.storeBit(0);
+            }
+            if (reader.readUint8() !== 0) {
+                const domain = reader.readBuffer(reader.readUint8()).toString('ascii');
+                let inner = beginCell();
+                domain.split('.').reverse().forEach((p) => {
+                    inner.storeBuffer(Buffer.from(p, 'ascii'));
+                    inner.storeUint(0, 8);
+                });
+                b = b.storeBit(1);
+                refs.push(cellRefOf(inner.endCell()));
+            } else {
+                b = b.storeBit(0);
+            }
+            refs.push(reader.readCellRef());
+            if (reader.readUint8() !== 0) {
+                b = b.storeBit(1);
+                refs.push(reader.readCellRef());
+            } else {
+                b = b.storeBit(0);
+            }
+            if (reader.remaining > 0) {
+                throw new EmulatorError(SW_TX_PARSING_FAIL);
+            }
+            cell = hashCell(b.endCell().bits, refs);
+            break;
+        }
+        case 0x00747874:
+        case 0x0062696e:
+        case 0x75569022: {
+            // TON Connect requests sign the hash itself
+            const timestamp = data.subarray(4, 12);
+            const address = reader.readAddress();
+            const domain = reader.readBuffer(reader.readUint8());
+            if (schema === 0x75569022) {
+                const schemaHash = reader.readUint32();
+                const payload = reader.readCellRef();
+                const encodedDomain = Buffer.concat(domain.toString('ascii').split('.').reverse().map((p) => Buffer.concat([Buffer.from(p, 'ascii'), Buffer.from([0])])));
+                const bits = beginCell()
+                    .storeUint(schema, 32)
+                    .storeUint(schemaHash, 32)
+                    .storeBuffer(timestamp)
+                    .storeAddress(address)
+                    .endCell().bits;
+                const hash = hashCell(bits, [cellRefOf(beginCell().storeBuffer(encodedDomain).endCell()), payload]).hash;
+                if (reader.remaining > 0) {
+                    throw new EmulatorError(SW_TX_PARSING_FAIL);
+                }
+                return { message: hash, hash };
+            }
+            const payload = reader.readBuffer(reader.readUint16());
+            if (reader.remaining > 0) {
+                throw new EmulatorError(SW_TX_PARSING_FAIL);
+            }
+            const wc = Buffer.alloc(4);
+            wc.writeInt32BE(address.workChain);
+            const hash = sha256_sync(Buffer.concat([
+                Buffer.from([0xff, 0xff]),
+                Buffer.from('ton-connect/sign-data/'),
+                wc,
+                address.hash,
+                writeUint32(domain.length),
+                domain,
+                timestamp,
+                Buffer.from(schema === 0x00747874 ? 'txt' : 'bin'),
+                writeUint32(payload.length),
+                payload
+            ]));
+            return { message: hash, hash };
+        }
+        default: {
+            throw new EmulatorError(SW_TX_PARSING_FAIL);
+        }
+    }
+
+    return { message: Buffer.concat([commonPart, cell.hash]), hash: cell.hash };
+}
@@ -0,0 +1,79 @@
+import { Address, Cell, ContractProvider, ContractState, toNano, TupleReader } from '@ton/core';
+import { signVerify } from '@ton/crypto';
+import { TonEmulatorTransport } from './TonEmulatorTransport';
+import { TonLedgerWallet } from './TonLedgerWallet';
+import { TonTransport } from './TonTransport';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon art'.split(' ');
+const PATH = [44, 607, 0, 0, 0, 0];
+const DESTINATION = Address.parse('EQBNVUFfKt2QgqKL5vZvnyP50wmniCFP2ASOKAE-g2noRDlR');
+
+function createProvider(state: ContractState['state'], seqno: number) {
+    const sent: Cell[] = [];
+    const provider: ContractProvider = {
+        getState: async () => ({ balance: toNano('10'), last: null, state }),
+        get: async (name) => {
+            expect(name).toBe('seqno');
+            return { stack: new TupleReader([{ type: 'int', value: BigInt(seqno) }]) };
+        },
+        external: async (message) => {
+            sent.push(message);
+        },
+        internal: async () => {
+            throw Error('Not supported');
+        }
+    };
+    return { provider, sent };
+}
+
+describe('TonLedgerWallet', () => {
+    let emulator: TonEmulatorTransport;
+    let transport: TonTransport;
+    beforeEach(async () => {
+        emulator = await TonEmulatorTransport.fromMnemonic(MNEMONIC);
+        transport = new TonTransport(emulator);
+    });
+
+    it('should match device address', async () => {
+        for (const walletVersion of ['v4', 'v5r1'] as const) {
+            const wallet = await TonLedgerWallet.fromTransport(transport, PATH, { walletVersion });
+            const device = await transport.getAddress(PATH, { walletVersion });
+            expect(wallet.address.equals(Address.parse(device.address))).toBe(true);
+        }
+    });
+
+    it('should read seqno and balance', async () => {
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        const wallet = TonLedgerWallet.create({ transport, path: PATH, publicKey });
+        expect(await wallet.getSeqno(createProvider({ type: 'uninit' }, 7).provider)).toBe(0);
+        expect(await wallet.getSeqno(createProvider({ type: 'active', code: null, data: null }, 7).provider)).toBe(7);
+        expect(await wallet.getBalance(createProvider({ type: 'uninit' }, 0).provider)).toBe(toNano('10'));
+    });
+
+    it('should send transfers signed on device', async () => {
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        const wallet = TonLedgerWallet.create({ transport, path: PATH, publicKey });
+        const { provider, sent } = createProvider({ type: 'active', code: null, data: null }, 3);
+        const messages = [{ to: DESTINATION, sendMode: 3, bounce: false, amount: toNano('1'), payload: { type: 'comment' as const, text: 'Hello' } }];
+
+        const seqno = await wallet.getSeqno(provider);
+        await wallet.sendTransfer(provider, { seqno, messages, timeout: 1700000000 });
+        expect(sent).toHaveLength(1);
+        const expected = await transport.signMultiTransaction(PATH, { seqno: 3, timeout: 1700000000, messages });
+        expect(sent[0].equals(expected)).toBe(true);
+
+        // Wallet V4 body starts with signature of the rest
+        const slice = sent[0].beginParse();
+        const signature = slice.loadBuffer(64);
+        expect(signVerify(slice.asCell().hash(), signature, publicKey)).toBe(true);
+    });
+
+    it('should reject blind signing without acknowledgement', async () => {
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        const wallet = TonLedgerWallet.create({ transport, path: PATH, publicKey, walletVersion: 'v5r1' });
+        const { provider, sent } = createProvider({ type: 'uninit' }, 0);
+        const messages = [{ to: DESTINATION, sendMode: 3, bounce: false, amount: 1n, payload: { type: 'unsafe' as const, message: Cell.EMPTY } }];
+        await expect(wallet.sendTransfer(provider, { seqno: 0, messages })).rejects.toThrow('require `acknowledgeBlindSigning` option');
+        expect(sent).toHaveLength(0);
+    });
+});
@@ -0,0 +1,99 @@
+import { Address, Cell, Contract, ContractProvider, contractAddress } from '@ton/core';
+import { TonTransactionMessage, TonTransport } from './TonTransport';
+import { getInit, WalletVersion } from './utils/getInit';
+import { CancellationOptions } from './utils/cancellation';
+import { TonPath } from './utils/path';
+
+export type TonLedgerTransferArgs = {
+    seqno: number,
+    messages: TonTransactionMessage[],
+    timeout?: number
+};
+
+/**
+ * Ledger-backed wallet with the same shape as software wallet contracts of @ton/ton,
+ * open it with `client.open(wallet)` to get seqno and send transfers signed on the device
+ */
+export class TonLedgerWallet implements Contract {
+
+    static create(args: { transport: TonTransport, path: TonPath, publicKey: Buffer, chain?: number, testOnly?: boolean, walletVersion?: WalletVersion, subwalletId?: number }) {
+        return new TonLedgerWallet(args.transport, args.path, args.publicKey, args.chain ?? 0, args.testOnly ?? false, args.walletVersion ?? 'v4', args.subwalletId);
+    }
+
+    /**
+     * Creates a wallet for the account at path, public key is requested from the device
+     */
+    static async fromTransport(transport: TonTransport, path: TonPath, opts?: { chain?: number, testOnly?: boolean, walletVersion?: WalletVersion, subwalletId?: number } & CancellationOptions) {
+        const { publicKey } = await transport.getAddress(path, opts);
+        return TonLedgerWallet.create({ transport, path, publicKey, chain: opts?.chain, testOnly: opts?.testOnly, walletVersion: opts?.walletVersion, subwalletId: opts?.subwalletId });
+    }
+
+    readonly transport: TonTransport;
+    readonly path: TonPath;
+    readonly publicKey: Buffer;
+    readonly chain: number;
+    readonly testOnly: boolean;
+    readonly walletVersion: WalletVersion;
+    readonly subwalletId: number | undefined;
+    readonly address: Address;
+    readonly init: { code: Cell, data: Cell };
+
+    private constructor(transport: TonTransport, path: TonPath, publicKey: Buffer, chain: number, testOnly: boolean, walletVersion: WalletVersion, subwalletId: number | undefined) {
+        this.transport = transport;
+        this.path = path;
+        this.publicKey = publicKey;
+        this.chain = chain;
+        this.testOnly = testOnly;
+        this.walletVersion = walletVersion;
+        this.subwalletId = subwalletId;
+        this.init = getInit(chain, publicKey, walletVersion, subwalletId, testOnly);
+        this.address = contractAddress(chain, this.init);
+    }
+
+    async getBalance(provider: ContractProvider) {
+        const state = await provider.getState();
+        return state.balance;
+    }
+
+    /**
+     * Returns 0 for a wallet that is not deployed yet
+     */
+    async getSeqno(provider: ContractProvider) {
+        const state = await provider.getState();
+        if (state.state.type !== 'active') {
+            return 0;
+        }
+        const res = await provider.get('seqno', []);
+        return res.stack.readNumber();
+    }
+
+    async send(provider: ContractProvider, message: Cell) {
+        await provider.external(message);
+    }
+
+    async sendTransfer(provider: ContractProvider, args: TonLedgerTransferArgs, opts?: { acknowledgeBlindSigning?: boolean } & CancellationOptions) {
+        const transfer = await this.createTransfer(args, opts);
+        await this.send(provider, transfer);
+    }
+
+    /**
+     * Signs the transfer on the device, timeout defaults to 60 seconds from now. Several messages
+     * need a transport with `experimentalLayouts`, see TonTransport.signMultiTransaction
+     */
+    async createTransfer(args: TonLedgerTransferArgs, opts?: { acknowledgeBlindSigning?: boolean } & CancellationOptions) {
+        return this.transport.signMultiTransaction(this.path, {
+            seqno: args.seqno,
+            timeout: args.timeout ?? Math.floor(Date.now() / 1000) + 60,
+            messages: args.messages
+        }, {
+            chain: this.chain,
+            testOnly: this.testOnly,
+            walletVersion: this.walletVersion,
+            subwalletId: this.subwalletId,
+            publicKey: this.publicKey,
+            acknowledgeBlindSigning: opts?.acknowledgeBlindSigning,
+            signal: opts?.signal,
+            timeout: opts?.timeout
+        });
+    }
+}
@@ -0,0 +1,82 @@
+import { Address, toNano } from '@ton/core';
+import { ReplayDivergenceError, UserRejectedError } from './errors';
+import { TonEmulatorTransport } from './TonEmulatorTransport';
+import { TonRecordingTransport } from './TonRecordingTransport';
+import { TonReplayTransport } from './TonReplayTransport';
+import { TonTransport } from './TonTransport';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon art'.split(' ');
+const PATH = [44, 607, 0, 0, 0, 0];
+const DESTINATION = Address.parse('EQBNVUFfKt2QgqKL5vZvnyP50wmniCFP2ASOKAE-g2noRDlR');
+
+const TRANSFER = {
+    to: DESTINATION,
+    sendMode: 3,
+    seqno: 1,
+    timeout: 1700000000,
+    bounce: true,
+    amount: toNano('1'),
+    payload: { type: 'comment' as const, text: 'Hello' }
+};
+
+describe('TonRecordingTransport', () => {
+    let emulator: TonEmulatorTransport;
+    let recorder: TonRecordingTransport;
+    beforeEach(async () => {
+        emulator = await TonEmulatorTransport.fromMnemonic(MNEMONIC);
+        recorder = new TonRecordingTransport(emulator);
+    });
+
+    it('should record and replay a session', async () => {
+        const signed = await new TonTransport(recorder).signTransaction(PATH, TRANSFER);
+        const session = JSON.parse(JSON.stringify(recorder));
+        expect(session.version).toBe(1);
+        expect(session.exchanges[0]).toEqual({ cla: 0xe0, ins: 0x03, p1: 0, p2: 0, data: '', response: expect.any(String), statusWord: 0x9000 });
+        expect(session.exchanges.map((e: any) => e.ins)).toMatchSnapshot();
+
+        const replay = TonReplayTransport.fromJSON(session);
+        const replayed = await new TonTransport(replay).signTransaction(PATH, TRANSFER);
+        expect(replayed.hash().equals(signed.hash())).toBe(true);
+        expect(replay.remaining).toBe(0);
+        replay.assertDone();
+    });
+
+    it('should fail on divergence', async () => {
+        await new TonTransport(recorder).signTransaction(PATH, TRANSFER);
+        const replay = new TonReplayTransport(recorder.session);
+        await expect(new TonTransport(replay).signTransaction(PATH, { ...TRANSFER, amount: toNano('2') })).rejects.toThrow(ReplayDivergenceError);
+        expect(() => replay.assertDone()).toThrow(ReplayDivergenceError);
+    });
+
+    it('should replay device errors', async () => {
+        emulator.rejectNext();
+        await expect(new TonTransport(recorder).signTransaction(PATH, TRANSFER)).rejects.toThrow(UserRejectedError);
+        emulator.disconnect();
+        await expect(new TonTransport(recorder).getVersion()).rejects.toThrow('Device was disconnected');
+
+        const replay = new TonReplayTransport(recorder.session);
+        const disconnected = jest.fn();
+        replay.on('disconnect', disconnected);
+        await expect(new TonTransport(replay).signTransaction(PATH, TRANSFER)).rejects.toThrow(UserRejectedError);
+        await expect(new TonTransport(replay).getVersion()).rejects.toMatchObject({ name: 'DisconnectedDevice' });
+        expect(disconnected).toHaveBeenCalled();
+    });
+
+    it('should redact exchanges', async () => {
+        recorder = new TonRecordingTransport(emulator, {
+            redact: (e) => e.ins === 0x06 ? { ...e, data: null } : e
+        });
+        const signed = await new TonTransport(recorder).signTransaction(PATH, TRANSFER);
+        const session = recorder.session;
+        expect(session.exchanges.filter((e) => e.ins === 0x06).every((e) => e.data === null)).toBe(true);
+
+        // Redacted data matches anything
+        const replay = new TonReplayTransport(session);
+        const replayed = await new TonTransport(replay).signTransaction(PATH, TRANSFER);
+        expect(replayed.hash().equals(signed.hash())).toBe(true);
+
+        // Redacted responses can't be replayed
+        const hidden = new TonReplayTransport({ ...session, exchanges: session.exchanges.map((e) => ({ ...e, response: null })) });
+        await expect(new TonTransport(hidden).getVersion()).rejects.toThrow('is redacted');
+    });
+});
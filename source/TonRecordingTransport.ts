@@ -0,0 +1,92 @@
+import Transport from "@ledgerhq/hw-transport";
+
+/**
+ * Single APDU exchange of a recorded session. Buffers are hex encoded, `data` and
+ * `response` are null when redacted. Failed exchanges keep the transport error instead of a response.
+ */
+export type RecordedApdu = {
+    cla: number,
+    ins: number,
+    p1: number,
+    p2: number,
+    data: string | null,
+    response: string | null,
+    statusWord: number | null,
+    error?: { name: string, message: string }
+};
+
+export type ApduSession = {
+    version: 1,
+    exchanges: RecordedApdu[]
+};
+
+export function parseApdu(apdu: Buffer): Pick<RecordedApdu, 'cla' | 'ins' | 'p1' | 'p2'> & { data: string } {
+    return {
+        cla: apdu[0],
+        ins: apdu[1],
+        p1: apdu[2],
+        p2: apdu[3],
+        data: apdu.subarray(5).toString('hex')
+    };
+}
+
+/**
+ * Wraps a transport and records every APDU exchanged through it
+ */
+export class TonRecordingTransport extends Transport {
+    readonly transport: Transport;
+    #redact: ((exchange: RecordedApdu) => RecordedApdu) | null;
+    #exchanges: RecordedApdu[] = [];
+
+    constructor(transport: Transport, opts?: { redact?: (exchange: RecordedApdu) => RecordedApdu }) {
+        super();
+        this.transport = transport;
+        this.#redact = opts?.redact ?? null;
+        transport.on('disconnect', () => this.emit('disconnect'));
+    }
+
+    get session(): ApduSession {
+        return { version: 1, exchanges: this.#exchanges.map((e) => ({ ...e })) };
+    }
+
+    toJSON(): ApduSession {
+        return this.session;
+    }
+
+    /**
+     * Forget exchanges recorded so far
+     */
+    reset() {
+        this.#exchanges = [];
+    }
+
+    async exchange(apdu: Buffer): Promise<Buffer> {
+        const request = parseApdu(apdu);
+        let response: Buffer;
+        try {
+            response = await this.transport.exchange(apdu);
+        } catch (e) {
+            this.#record({
+                ...request,
+                response: null,
+                statusWord: null,
+                error: { name: (e as Error)?.name ?? 'Error', message: (e as Error)?.message ?? String(e) }
+            });
+            throw e;
+        }
+        this.#record({
+            ...request,
+            response: response.subarray(0, response.length - 2).toString('hex'),
+            statusWord: response.length >= 2 ? response.readUInt16BE(response.length - 2) : null
+        });
+        return response;
+    }
+
+    async close() {
+        await this.transport.close();
+    }
+
+    #record(exchange: RecordedApdu) {
+        this.#exchanges.push(this.#redact ? this.#redact(exchange) : exchange);
+    }
+}
@@ -0,0 +1,82 @@
+import Transport from "@ledgerhq/hw-transport";
+import { ReplayDivergenceError } from "./errors";
+import { ApduSession, parseApdu, RecordedApdu } from "./TonRecordingTransport";
+import { writeUint16 } from "./utils/ledgerWriter";
+
+function formatApdu(e: Pick<RecordedApdu, 'cla' | 'ins' | 'p1' | 'p2' | 'data'>) {
+    const h = (v: number) => '0x' + v.toString(16).padStart(2, '0');
+    return `cla: ${h(e.cla)}, ins: ${h(e.ins)}, p1: ${h(e.p1)}, p2: ${h(e.p2)}, data: ${e.data === null ? '<redacted>' : e.data || '<empty>'}`;
+}
+
+/**
+ * Answers exchanges from a recorded session, every request must match the recording
+ * in order. Redacted request data is not compared.
+ */
+export class TonReplayTransport extends Transport {
+
+    static fromJSON(json: string | ApduSession) {
+        return new TonReplayTransport(typeof json === 'string' ? JSON.parse(json) : json);
+    }
+
+    readonly session: ApduSession;
+    #position = 0;
+
+    constructor(session: ApduSession) {
+        super();
+        if (session?.version !== 1 || !Array.isArray(session.exchanges)) {
+            throw new Error('Unsupported session format');
+        }
+        this.session = session;
+    }
+
+    /**
+     * Number of recorded exchanges that were not replayed yet
+     */
+    get remaining() {
+        return this.session.exchanges.length - this.#position;
+    }
+
+    /**
+     * Throws if some of the recorded exchanges were not replayed
+     */
+    assertDone() {
+        if (this.remaining > 0) {
+            const next = this.session.exchanges[this.#position];
+            throw new ReplayDivergenceError(`Exchange #${this.#position} was not replayed, ${this.remaining} left (expected ${formatApdu(next)})`, this.#position);
+        }
+    }
+
+    async exchange(apdu: Buffer): Promise<Buffer> {
+        const index = this.#position;
+        const actual = parseApdu(apdu);
+        const expected = this.session.exchanges[index];
+        if (!expected) {
+            throw new ReplayDivergenceError(`Exchange #${index} is not in the recording (got ${formatApdu(actual)})`, index);
+        }
+        if (expected.cla !== actual.cla
+            || expected.ins !== actual.ins
+            || expected.p1 !== actual.p1
+            || expected.p2 !== actual.p2
+            || (expected.data !== null && expected.data !== actual.data)) {
+            throw new ReplayDivergenceError(`Exchange #${index} diverged from the recording (expected ${formatApdu(expected)}, got ${formatApdu(actual)})`, index);
+        }
+        this.#position++;
+
+        if (expected.error) {
+            const error = new Error(expected.error.message);
+            error.name = expected.error.name;
+            if (expected.error.name.startsWith('Disconnected')) {
+                this.emit('disconnect');
+            }
+            throw error;
+        }
+        if (expected.response === null || expected.statusWord === null) {
+            throw new ReplayDivergenceError(`Response of exchange #${index} is redacted and can't be replayed`, index);
+        }
+        return Buffer.concat([Buffer.from(expected.response, 'hex'), writeUint16(expected.statusWord)]);
+    }
+
+    async close() {
+        // Nothing to release
+    }
+}
@@ -0,0 +1,689 @@
+import { Address, beginCell, Cell, contractAddress, loadMessage, toNano } from '@ton/core';
+import { signVerify } from '@ton/crypto';
+import { discoverAccounts } from './discoverAccounts';
+import { BlindSigningDisabledError, CancelledError, TimeoutError, DeviceLockedError, InvalidDataError, UnsupportedFeatureError, UserRejectedError, ValidationError, WrongAppError } from './errors';
+import { TonEmulatorTransport } from './TonEmulatorTransport';
+import { SignDataRequest, TonPayloadFormat, TonProgressEvent, TonTransport } from './TonTransport';
+import { getInit, getWalletId } from './utils/getInit';
+import { crc32, verifySignData } from './utils/signData';
+import { tonProofHash, verifyTonProof } from './utils/tonProof';
+import { MemoryPublicKeyStore } from './utils/publicKeyCache';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon art'.split(' ');
+const PATH = [44, 607, 0, 0, 0, 0];
+const DESTINATION = Address.parse('EQBNVUFfKt2QgqKL5vZvnyP50wmniCFP2ASOKAE-g2noRDlR');
+
+describe('TonTransport', () => {
+    let emulator: TonEmulatorTransport;
+    let transport: TonTransport;
+    beforeEach(async () => {
+        emulator = await TonEmulatorTransport.fromMnemonic(MNEMONIC);
+        transport = new TonTransport(emulator, { experimentalLayouts: true });
+    });
+
+    it('should report app and version', async () => {
+        expect(await transport.isAppOpen()).toBe(true);
+        expect(await transport.getVersion()).toBe('2.2.0');
+        emulator.openApp('BOLOS');
+        expect(await transport.isAppOpen()).toBe(false);
+    });
+
+    it('should get address', async () => {
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        const res = await transport.getAddress(PATH, { testOnly: true });
+        expect(res.publicKey.equals(publicKey)).toBe(true);
+        expect(res.address).toBe(contractAddress(0, getInit(0, publicKey)).toString({ testOnly: true }));
+        expect(res.address).toMatchSnapshot();
+    });
+
+    it('should validate address', async () => {
+        const res = await transport.validateAddress(PATH);
+        expect(res.address).toBe((await transport.getAddress(PATH)).address);
+        emulator.rejectNext();
+        await expect(transport.validateAddress(PATH)).rejects.toThrow(UserRejectedError);
+    });
+
+    it('should sign transaction', async () => {
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        const signed = await transport.signTransaction(PATH, {
+            to: DESTINATION,
+            sendMode: 3,
+            seqno: 1,
+            timeout: 1700000000,
+            bounce: true,
+            amount: toNano('1.5'),
+            payload: { type: 'comment', text: 'Hello world' }
+        });
+        const slice = signed.beginParse();
+        const signature = slice.loadBuffer(64);
+        const body = slice.asCell();
+        expect(signVerify(body.hash(), signature, publicKey)).toBe(true);
+        expect(body.hash().toString('hex')).toMatchSnapshot();
+    });
+
+    it('should sign jetton transfer with state init', async () => {
+        const signed = await transport.signTransaction(PATH, {
+            to: DESTINATION,
+            sendMode: 3,
+            seqno: 0,
+            timeout: 1700000000,
+            bounce: false,
+            amount: toNano('0.1'),
+            stateInit: { code: beginCell().storeUint(1, 8).endCell(), data: beginCell().storeUint(2, 8).endCell() },
+            payload: {
+                type: 'jetton-transfer',
+                queryId: 42n,
+                amount: 1000n,
+                destination: DESTINATION,
+                responseDestination: DESTINATION,
+                customPayload: null,
+                forwardAmount: 1n,
+                forwardPayload: beginCell().storeUint(0, 32).storeStringTail('memo').endCell()
+            }
+        });
+        expect(signed.hash().toString('hex')).toMatchSnapshot();
+    });
+
+    it('should get and validate wallet v5 address', async () => {
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        const res = await transport.getAddress(PATH, { walletVersion: 'v5r1' });
+        expect(res.address).toBe(contractAddress(0, getInit(0, publicKey, 'v5r1')).toString());
+        expect(res.address).not.toBe((await transport.getAddress(PATH)).address);
+        expect((await transport.validateAddress(PATH, { walletVersion: 'v5r1' })).address).toBe(res.address);
+        expect(res.address).toMatchSnapshot();
+    });
+
+    it('should get wallet v5 testnet address', async () => {
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        const res = await transport.getAddress(PATH, { testOnly: true, walletVersion: 'v5r1' });
+        expect(getWalletId(0, 'v5r1', undefined, true)).toBe(0x7ffffffd);
+        expect(getInit(0, publicKey, 'v5r1', undefined, true).data.beginParse().skip(33).loadUint(32)).toBe(0x7ffffffd);
+        expect(res.address).toBe(contractAddress(0, getInit(0, publicKey, 'v5r1', undefined, true)).toString({ testOnly: true }));
+        expect(Address.parse(res.address).equals(Address.parse((await transport.getAddress(PATH, { walletVersion: 'v5r1' })).address))).toBe(false);
+        expect((await transport.validateAddress(PATH, { testOnly: true, walletVersion: 'v5r1' })).address).toBe(res.address);
+
+        // Wallet id of testnet is signed along with the transfer
+        const external = await transport.signExternalMessage(PATH, { seqno: 0, timeout: 1700000000, messages: [{ to: DESTINATION, sendMode: 3, bounce: false, amount: toNano('1') }] }, { testOnly: true, walletVersion: 'v5r1' });
+        expect(external.address.toString({ testOnly: true })).toBe(res.address);
+        expect(external.message.body.beginParse().skip(32).loadUint(32)).toBe(0x7ffffffd);
+    });
+
+    it('should not send experimental layouts by default', async () => {
+        const released = new TonTransport(emulator);
+        const exchange = jest.spyOn(emulator, 'exchange');
+        const tx = { to: DESTINATION, sendMode: 3, seqno: 1, timeout: 1700000000, bounce: true, amount: toNano('1') };
+        await expect(released.validateAddress(PATH, { walletVersion: 'v5r1' })).rejects.toThrow(UnsupportedFeatureError);
+        await expect(released.getTonProof(PATH, { domain: 'ton.org', timestamp: 1700000000, payload: 'payload' }, { walletVersion: 'v5r1' })).rejects.toThrow(UnsupportedFeatureError);
+        await expect(released.signTransaction(PATH, tx, { walletVersion: 'v5r1' })).rejects.toThrow(`Wallet version 'v5r1' is not supported`);
+        expect(exchange.mock.calls.filter(([apdu]) => (apdu[1] === 0x05 && apdu[2] === 0x01) || apdu[1] === 0x06 || apdu[1] === 0x08)).toHaveLength(0);
+
+        // Addresses are derived on the host, so they don't need the device to know V5
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        expect((await released.getAddress(PATH, { walletVersion: 'v5r1' })).address).toBe(contractAddress(0, getInit(0, publicKey, 'v5r1')).toString());
+    });
+
+    it('should not send multiple messages by default', async () => {
+        const released = new TonTransport(emulator);
+        const exchange = jest.spyOn(emulator, 'exchange');
+        const message = { to: DESTINATION, sendMode: 3, bounce: true, amount: toNano('1') };
+        await expect(released.signMultiTransaction(PATH, { seqno: 1, timeout: 1700000000, messages: [message, message] })).rejects.toThrow('Multiple messages are not supported');
+        expect(exchange.mock.calls.filter(([apdu]) => apdu[1] === 0x06)).toHaveLength(0);
+
+        // Single message is sent in the layout of released apps
+        await released.signMultiTransaction(PATH, { seqno: 1, timeout: 1700000000, messages: [message] });
+        expect(exchange.mock.calls.filter(([apdu]) => apdu[1] === 0x06 && apdu[3] === 0x00).map(([apdu]) => apdu[5])).toEqual([0x00]);
+    });
+
+    it('should sign wallet v5 transaction', async () => {
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        const signed = await transport.signTransaction(PATH, {
+            to: DESTINATION,
+            sendMode: 3,
+            seqno: 1,
+            timeout: 1700000000,
+            bounce: true,
+            amount: toNano('1.5'),
+            payload: { type: 'comment', text: 'Hello world' }
+        }, { walletVersion: 'v5r1' });
+        const slice = signed.beginParse();
+        expect(slice.loadUint(32)).toBe(0x7369676e);
+        expect(slice.loadUint(32)).toBe(2147483409);
+        const body = beginCell().storeBits(signed.bits.substring(0, signed.bits.length - 512)).storeRef(signed.refs[0]).endCell();
+        const signature = signed.beginParse().skip(signed.bits.length - 512).loadBuffer(64);
+        expect(signVerify(body.hash(), signature, publicKey)).toBe(true);
+    });
+
+    it('should sign extended payload formats', async () => {
+        const payloads: TonPayloadFormat[] = [
+            { type: 'jetton-burn', queryId: 1n, amount: 100n, responseDestination: DESTINATION, customPayload: null },
+            { type: 'change-dns-record', queryId: null, record: { type: 'wallet', value: { address: DESTINATION, isWallet: true } } },
+            { type: 'change-dns-record', queryId: null, record: { type: 'site', value: { adnlAddress: Buffer.alloc(32, 1) } } },
+            { type: 'change-dns-record', queryId: null, record: { type: 'storage', value: null } },
+            { type: 'nft-prove-ownership', queryId: 2n, destination: DESTINATION, forwardPayload: beginCell().storeUint(1, 8).endCell(), withContent: true },
+            { type: 'excesses', queryId: 3n },
+            { type: 'single-nominator-withdraw', queryId: null, amount: toNano(10) },
+            { type: 'single-nominator-change-validator', queryId: null, address: DESTINATION },
+            { type: 'tonstakers-deposit', queryId: null, appId: 7n },
+            { type: 'tonstakers-deposit', queryId: 1n, appId: null },
+            { type: 'tonstakers-withdraw', queryId: null, amount: toNano(10), responseDestination: DESTINATION, waitTillRoundEnd: true, fillOrKill: false }
+        ];
+        for (let payload of payloads) {
+            await transport.signTransaction(PATH, {
+                to: DESTINATION,
+                sendMode: 3,
+                seqno: 1,
+                timeout: 1700000000,
+                bounce: true,
+                amount: toNano('0.05'),
+                payload
+            });
+        }
+    });
+
+    it('should sign unsafe payload only when acknowledged and enabled', async () => {
+        const tx = {
+            to: DESTINATION,
+            sendMode: 3,
+            seqno: 1,
+            timeout: 1700000000,
+            bounce: true,
+            amount: toNano('0.05'),
+            payload: { type: 'unsafe' as const, message: beginCell().storeUint(0xdeadbeef, 32).endCell() }
+        };
+        await expect(transport.signTransaction(PATH, tx)).rejects.toThrow('acknowledgeBlindSigning');
+        await expect(transport.signTransaction(PATH, tx, { acknowledgeBlindSigning: true })).rejects.toThrow(UnsupportedFeatureError);
+        emulator.setBlindSigning(true);
+        const signed = await transport.signTransaction(PATH, tx, { acknowledgeBlindSigning: true });
+        expect(signed.refs[0].refs[0].equals(tx.payload.message)).toBe(true);
+    });
+
+    it('should report blind signing disabled by device without settings support', async () => {
+        emulator.openApp('TON', '2.0.0');
+        await expect(transport.signTransaction(PATH, {
+            to: DESTINATION,
+            sendMode: 3,
+            seqno: 1,
+            timeout: 1700000000,
+            bounce: true,
+            amount: toNano('0.05'),
+            payload: { type: 'unsafe', message: beginCell().storeUint(0xdeadbeef, 32).endCell() }
+        }, { acknowledgeBlindSigning: true })).rejects.toThrow(BlindSigningDisabledError);
+    });
+
+    it('should report capabilities', async () => {
+        emulator.setExpertMode(true);
+        const capabilities = await transport.getCapabilities();
+        expect(capabilities.version).toEqual({ major: 2, minor: 2, patch: 0 });
+        expect(capabilities.walletVersions).toEqual(['v4', 'v5r1']);
+        expect(capabilities.multipleMessages).toBe(true);
+        expect(capabilities.settings).toEqual({ blindSigning: false, expertMode: true });
+        expect(capabilities.payloadTypes).toContain('tonstakers-withdraw');
+
+        // Layouts that no released app implements are not reported by default
+        const released = await new TonTransport(emulator).getCapabilities();
+        expect(released.walletVersions).toEqual(['v4']);
+        expect(released.multipleMessages).toBe(false);
+    });
+
+    it('should sign when app rejects settings request', async () => {
+        emulator.disableInstruction(0x0A);
+        const signed = await transport.signTransaction(PATH, {
+            to: DESTINATION,
+            sendMode: 3,
+            seqno: 1,
+            timeout: 1700000000,
+            bounce: true,
+            amount: toNano('1'),
+            payload: { type: 'comment', text: 'Hello' }
+        });
+        expect(signed.bits.length).toBeGreaterThan(512);
+        expect((await transport.getCapabilities()).settings).toBeNull();
+        expect(await transport.getSettings()).toBeNull();
+    });
+
+    it('should reject unsupported requests before signing', async () => {
+        emulator.openApp('TON', '2.0.0');
+        const capabilities = await transport.getCapabilities();
+        expect(capabilities.settings).toBeNull();
+        expect(capabilities.multipleMessages).toBe(false);
+        const tx = {
+            to: DESTINATION,
+            sendMode: 3,
+            seqno: 1,
+            timeout: 1700000000,
+            bounce: true,
+            amount: toNano('0.05'),
+            payload: { type: 'excesses' as const, queryId: null }
+        };
+        await expect(transport.signTransaction(PATH, tx)).rejects.toThrow(UnsupportedFeatureError);
+        await expect(transport.signTransaction(PATH, { ...tx, payload: undefined }, { walletVersion: 'v5r1' })).rejects.toThrow(`Wallet version 'v5r1' is not supported`);
+        await expect(transport.validateAddress(PATH, { walletVersion: 'v5r1' })).rejects.toThrow(UnsupportedFeatureError);
+        await expect(transport.signMultiTransaction(PATH, { seqno: 1, timeout: 1700000000, messages: [tx, tx] })).rejects.toThrow('Multiple messages');
+    });
+
+    it('should sign multiple messages', async () => {
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        const messages = [0, 1, 2, 3].map((i) => ({
+            to: DESTINATION,
+            sendMode: 3,
+            bounce: false,
+            amount: toNano(i + 1),
+            payload: { type: 'comment' as const, text: 'Payout #' + i }
+        }));
+        const signed = await transport.signMultiTransaction(PATH, { seqno: 5, timeout: 1700000000, messages });
+        expect(signed.refs.length).toBe(4);
+        const slice = signed.beginParse();
+        const signature = slice.loadBuffer(64);
+        expect(signVerify(slice.asCell().hash(), signature, publicKey)).toBe(true);
+
+        const v5 = await transport.signMultiTransaction(PATH, { seqno: 5, timeout: 1700000000, messages }, { walletVersion: 'v5r1' });
+        expect(v5.hash().toString('hex')).toMatchSnapshot();
+
+        await expect(transport.signMultiTransaction(PATH, { seqno: 5, timeout: 1700000000, messages: [...messages, messages[0]] })).rejects.toThrow();
+    });
+
+    it('should use custom subwallet id', async () => {
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        const address = contractAddress(0, getInit(0, publicKey, 'v4', 1));
+        expect((await transport.getAddress(PATH, { subwalletId: 1 })).address).toBe(address.toString());
+        expect((await transport.validateAddress(PATH, { subwalletId: 1 })).address).toBe(address.toString());
+        expect((await transport.getAddress(PATH, { subwalletId: 698983191 })).address).toBe((await transport.getAddress(PATH)).address);
+
+        // Wallet id is stored after the signature in V4 and after the opcode in V5
+        const messages = [{ to: DESTINATION, sendMode: 3, bounce: false, amount: toNano('1') }];
+        const v4 = (await transport.signMultiTransaction(PATH, { seqno: 1, timeout: 1700000000, messages }, { subwalletId: 1 })).beginParse();
+        const signature = v4.loadBuffer(64);
+        expect(signVerify(v4.asCell().hash(), signature, publicKey)).toBe(true);
+        expect(v4.loadUint(32)).toBe(1);
+        const v5 = await transport.signExternalMessage(PATH, { seqno: 0, timeout: 1700000000, messages }, { walletVersion: 'v5r1', subwalletId: 7 });
+        expect(v5.address.equals(contractAddress(0, getInit(0, publicKey, 'v5r1', 7)))).toBe(true);
+        expect(v5.message.init?.data?.equals(getInit(0, publicKey, 'v5r1', 7).data)).toBe(true);
+        expect(v5.message.body.beginParse().skip(32).loadUint(32)).toBe(getWalletId(0, 'v5r1', 7));
+
+        const reply = await transport.getTonProof(PATH, { domain: 'ton.org', timestamp: 1700000000, payload: 'payload' }, { subwalletId: 1 });
+        expect(reply.account.address).toBe(address.toRawString());
+        expect(verifyTonProof(reply, { allowedDomains: ['ton.org'], now: 1700000000 }).valid).toBe(true);
+
+        await expect(transport.signMultiTransaction(PATH, { seqno: 1, timeout: 1700000000, messages }, { walletVersion: 'v5r1', subwalletId: 0x8000 })).rejects.toThrow('subwalletId: Must be an integer between 0 and 32767');
+        emulator.openApp('TON', '2.1.0');
+        await expect(new TonTransport(emulator).validateAddress(PATH, { subwalletId: 1 })).rejects.toThrow('Custom subwallet id is not supported');
+    });
+
+    it('should sign for default masterchain wallet on older apps', async () => {
+        emulator.openApp('TON', '2.1.0');
+        const path = [44, 607, 0, 255, 0, 0];
+        const { publicKey } = await emulator.getKeyPair(path);
+        const messages = [{ to: DESTINATION, sendMode: 3, bounce: false, amount: toNano('1') }];
+        const external = await transport.signExternalMessage(path, { seqno: 0, timeout: 1700000000, messages }, { chain: -1 });
+        expect(external.address.equals(contractAddress(-1, getInit(-1, publicKey)))).toBe(true);
+        expect(external.message.body.beginParse().skip(512).loadUint(32)).toBe(698983190);
+        await expect(transport.signExternalMessage(path, { seqno: 0, timeout: 1700000000, messages }, { chain: -1, subwalletId: 1 })).rejects.toThrow(UnsupportedFeatureError);
+    });
+
+    it('should send APDUs of TON app 2.2.0 protocol', async () => {
+        // Sent by @ton-community/ton-ledger 7.3.0 for the same requests
+        const exchange = jest.spyOn(emulator, 'exchange');
+        const sent = () => exchange.mock.calls.map(([apdu]) => apdu.toString('hex')).filter((apdu) => !/^e0(03|0a|0500)/.test(apdu)); // Skip version, settings and key requests
+        const transaction = { to: DESTINATION, sendMode: 3, seqno: 3, timeout: 1700000000, bounce: false, amount: toNano('1') };
+
+        await transport.validateAddress(PATH, { subwalletId: 698983192 });
+        await transport.validateAddress(PATH, { testOnly: true, chain: -1 });
+        await transport.getAddressProof(PATH, { domain: 'ton.org', timestamp: 1700000000, payload: Buffer.from('abc') }, { subwalletId: 698983192 });
+        await transport.signTransaction(PATH, transaction);
+        await transport.signTransaction(PATH, transaction, { subwalletId: 698983192 });
+        expect(sent()).toEqual([
+            'e00501041e068000002c8000025f800000008000000080000000800000000029a9a318',
+            'e005010319068000002c8000025f80000000800000008000000080000000',
+            'e008010431068000002c8000025f800000008000000080000000800000000029a9a31807746f6e2e6f7267000000006553f100616263',
+            'e006000319068000002c8000025f80000000800000008000000080000000',
+            'e00600003400000000036553f100043b9aca00004d55415f2add9082a28be6f66f9f23f9d309a788214fd8048e28013e8369e8440003000000',
+            'e006000319068000002c8000025f80000000800000008000000080000000',
+            'e0060000390129a9a31801000000036553f100043b9aca00004d55415f2add9082a28be6f66f9f23f9d309a788214fd8048e28013e8369e8440003000000'
+        ]);
+    });
+
+    it('should sign external message', async () => {
+        const messages = [{ to: DESTINATION, sendMode: 3, bounce: false, amount: toNano('1') }];
+        const deploy = await transport.signExternalMessage(PATH, { seqno: 0, timeout: 1700000000, messages }, { walletVersion: 'v5r1' });
+        expect(deploy.address.toString()).toBe((await transport.getAddress(PATH, { walletVersion: 'v5r1' })).address);
+        const loaded = loadMessage(Cell.fromBase64(deploy.bocBase64).beginParse());
+        expect(loaded.info.type).toBe('external-in');
+        expect(loaded.info.dest?.toString()).toBe(deploy.address.toString());
+        expect(loaded.init?.code?.hash().equals(getInit(0, (await emulator.getKeyPair(PATH)).publicKey, 'v5r1').code.hash())).toBe(true);
+        expect(deploy.hash.equals(deploy.cell.hash())).toBe(true);
+        expect(deploy.boc.equals(deploy.cell.toBoc())).toBe(true);
+
+        const transfer = await transport.signExternalMessage(PATH, { seqno: 1, timeout: 1700000000, messages });
+        expect(transfer.message.init).toBeNull();
+        expect(loadMessage(transfer.cell.beginParse()).init).toBeFalsy();
+    });
+
+    it('should fail when user rejects transaction', async () => {
+        emulator.rejectNext();
+        await expect(transport.signTransaction(PATH, {
+            to: DESTINATION,
+            sendMode: 3,
+            seqno: 1,
+            timeout: 1700000000,
+            bounce: true,
+            amount: 1n
+        })).rejects.toMatchObject({
+            name: 'UserRejectedError',
+            statusCode: 0x6985,
+            context: { ins: 0x06, p1: 0x00, p2: 0x00, chunk: 0 }
+        });
+    });
+
+    it('should sign data', async () => {
+        const plaintext = await transport.signData(PATH, { type: 'plaintext', text: 'Hello world' }, { timestamp: 1700000000 });
+        expect(plaintext.signature.toString('hex')).toMatchSnapshot();
+
+        const appData = await transport.signData(PATH, {
+            type: 'app-data',
+            address: DESTINATION,
+            domain: 'ton.org',
+            data: beginCell().storeUint(1, 32).endCell()
+        }, { timestamp: 1700000000 });
+        expect(appData.signature.toString('hex')).toMatchSnapshot();
+    });
+
+    it('should sign data in TON Connect format', async () => {
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        const address = Address.parse((await transport.getAddress(PATH)).address);
+        const requests: SignDataRequest[] = [
+            { type: 'text', text: 'Confirm new 2fa number:\n+1 234 567 8901', domain: 'ton.org' },
+            { type: 'binary', bytes: Buffer.alloc(300, 7), domain: 'ton.org' },
+            { type: 'cell', schema: 'message#_ text:string = Message;', cell: beginCell().storeStringTail('Hello').endCell(), domain: 'ton.org' }
+        ];
+        await expect(transport.signData(PATH, requests[0])).rejects.toThrow(UnsupportedFeatureError);
+
+        emulator.openApp('TON', '2.3.0');
+        transport = new TonTransport(emulator);
+        for (const request of requests) {
+            const res = await transport.signData(PATH, request, { timestamp: 1700000000 });
+            expect(verifySignData({ publicKey, request, address, ...res })).toBe(true);
+            expect(verifySignData({ publicKey, request, address: DESTINATION, ...res })).toBe(false);
+            expect(res.signature.toString('hex')).toMatchSnapshot();
+        }
+
+        // Cell requests sign the hash of the TON Connect cell
+        const res = await transport.signData(PATH, requests[2], { timestamp: 1700000000 });
+        const expected = beginCell()
+            .storeUint(0x75569022, 32)
+            .storeUint(crc32(Buffer.from('message#_ text:string = Message;')), 32)
+            .storeUint(1700000000, 64)
+            .storeAddress(address)
+            .storeStringRefTail('org\0ton\0')
+            .storeRef(beginCell().storeStringTail('Hello').endCell())
+            .endCell();
+        expect(signVerify(expected.hash(), res.signature, publicKey)).toBe(true);
+    });
+
+    it('should get address proof', async () => {
+        const res = await transport.getAddressProof(PATH, { domain: 'ton.org', timestamp: 1700000000, payload: Buffer.from('payload') });
+        expect(res.hash.toString('hex')).toMatchSnapshot();
+
+        const v5 = await transport.getAddressProof(PATH, { domain: 'ton.org', timestamp: 1700000000, payload: Buffer.from('payload') }, { walletVersion: 'v5r1' });
+        expect(v5.hash.equals(res.hash)).toBe(false);
+    });
+
+    it('should reject invalid requests before sending anything', async () => {
+        const exchange = jest.spyOn(emulator, 'exchange');
+        const tx = {
+            to: DESTINATION,
+            sendMode: 3,
+            seqno: 1,
+            timeout: 1700000000,
+            bounce: true,
+            amount: toNano('1'),
+            payload: { type: 'comment' as const, text: 'Ünicode' }
+        };
+        await expect(transport.signTransaction(PATH, tx)).rejects.toMatchObject({
+            name: 'ValidationError',
+            issues: [{ field: 'payload.text', message: 'Must contain only printable ASCII characters' }]
+        });
+        await expect(transport.signMultiTransaction(PATH, { seqno: 1, timeout: -1, messages: [{ ...tx, payload: undefined }] })).rejects.toThrow(ValidationError);
+        await expect(transport.signData(PATH, { type: 'text', text: 'Hello', domain: '' })).rejects.toThrow('domain: Must be a non-empty string');
+        expect(exchange).not.toHaveBeenCalled();
+    });
+
+    it('should accept path strings', async () => {
+        const res = await transport.getAddress('m/44\'/607\'/0\'/0\'/0\'/0\'');
+        expect(res.address).toBe((await transport.getAddress(PATH)).address);
+        await expect(transport.getAddress('m/44\'/607\'/0\'/0\'/0/0\'')).rejects.toThrow('Path segment 4 (\'0\') must be hardened');
+    });
+
+    it('should discover used accounts', async () => {
+        const used = new Set([0, 2]);
+        const seen: number[] = [];
+        const accounts = await discoverAccounts(transport, {
+            gapLimit: 2,
+            isUsed: (a) => {
+                seen.push(a.account);
+                return used.has(a.account);
+            }
+        });
+        expect(seen).toEqual([0, 1, 2, 3, 4]);
+        expect(accounts.map((a) => a.pathString)).toEqual(['m/44\'/607\'/0\'/0\'/0\'/0\'', 'm/44\'/607\'/0\'/0\'/2\'/0\'']);
+        expect(accounts[0].addresses.bounceable).toBe((await transport.getAddress(PATH, { bounceable: true })).address);
+        expect(accounts[0].addresses.nonBounceable).toBe((await transport.getAddress(PATH, { bounceable: false })).address);
+        expect(accounts[0].addresses.raw).toBe(accounts[0].address.toRawString());
+    });
+
+    it('should cache public keys', async () => {
+        const exchange = jest.spyOn(emulator, 'exchange');
+        const addressRequests = () => exchange.mock.calls.filter(([apdu]) => apdu[1] === 0x05).length;
+        const sign = (t: TonTransport, opts?: { publicKey?: Buffer }) => t.signData(PATH, { type: 'plaintext', text: 'Hello' }, opts);
+
+        await sign(transport);
+        await sign(transport);
+        expect(addressRequests()).toBe(1);
+
+        // Seed is checked again after the device was locked
+        emulator.lock();
+        await expect(sign(transport)).rejects.toThrow(DeviceLockedError);
+        emulator.unlock();
+        await sign(transport);
+        expect(addressRequests()).toBe(2);
+
+        // Known key skips the lookup
+        const uncached = new TonTransport(emulator, { publicKeyStore: null });
+        await sign(uncached, { publicKey: (await emulator.getKeyPair(PATH)).publicKey });
+        expect(addressRequests()).toBe(2);
+    });
+
+    it('should drop cached public keys of another seed', async () => {
+        const store = new MemoryPublicKeyStore();
+        const other = await TonEmulatorTransport.fromMnemonic(MNEMONIC, 'password');
+        await new TonTransport(other, { publicKeyStore: store }).signData([44, 607, 0, 0, 1, 0], { type: 'plaintext', text: 'Hello' });
+
+        // Signature is verified with the key of the current seed
+        await new TonTransport(emulator, { publicKeyStore: store }).signData([44, 607, 0, 0, 1, 0], { type: 'plaintext', text: 'Hello' });
+        expect(store.get('m/44\'/607\'/0\'/0\'/1\'/0\'')?.equals((await emulator.getKeyPair([44, 607, 0, 0, 1, 0])).publicKey)).toBe(true);
+    });
+
+    it('should stop sending chunks when cancelled', async () => {
+        const controller = new AbortController();
+        const exchange = emulator.exchange.bind(emulator);
+        const sent: number[] = [];
+        jest.spyOn(emulator, 'exchange').mockImplementation(async (apdu) => {
+            if (apdu[1] === 0x09) {
+                sent.push(apdu[3]);
+                if (apdu[3] === 0x02) {
+                    controller.abort();
+                }
+            }
+            return exchange(apdu);
+        });
+        const req: SignDataRequest = { type: 'plaintext', text: 'a'.repeat(300) };
+        await expect(transport.signData(PATH, req, { signal: controller.signal })).rejects.toThrow(CancelledError);
+        expect(sent).toEqual([0x03, 0x02]);
+
+        // Next request starts over
+        await transport.signData(PATH, req);
+    });
+
+    it('should release device when confirmation times out', async () => {
+        const exchange = emulator.exchange.bind(emulator);
+        let confirm = () => { };
+        jest.spyOn(emulator, 'exchange').mockImplementation(async (apdu) => {
+            if (apdu[1] === 0x05 && apdu[2] === 0x01) {
+                // User doesn't react until the prompt is dismissed
+                await new Promise<void>((resolve) => confirm = resolve);
+            }
+            return exchange(apdu);
+        });
+        await expect(transport.validateAddress(PATH, { timeout: 50 })).rejects.toThrow(TimeoutError);
+
+        // Queued request can be cancelled too and the next one runs after the prompt is dismissed
+        await expect(transport.getVersion({ timeout: 50 })).rejects.toThrow(TimeoutError);
+        const version = transport.getVersion();
+        confirm();
+        expect(await version).toBe('2.2.0');
+    });
+
+    it('should not interleave APDUs of concurrent operations', async () => {
+        const exchange = emulator.exchange.bind(emulator);
+        const sent: string[] = [];
+        jest.spyOn(emulator, 'exchange').mockImplementation(async (apdu) => {
+            sent.push(apdu.subarray(1, 4).toString('hex'));
+            return exchange(apdu);
+        });
+        const req: SignDataRequest = { type: 'plaintext', text: 'a'.repeat(300) };
+        await Promise.all([
+            transport.signData(PATH, req),
+            transport.signData(PATH, req, { publicKey: (await emulator.getKeyPair(PATH)).publicKey }),
+            transport.getAddress(PATH)
+        ]);
+        const signData = sent.filter((apdu) => apdu.startsWith('09'));
+        expect(signData).toEqual(['090003', '090002', '090000', '090003', '090002', '090000']);
+        expect(transport.operations).toEqual([]);
+    });
+
+    it('should start queued operations by priority', async () => {
+        const exchange = emulator.exchange.bind(emulator);
+        let confirm = () => { };
+        jest.spyOn(emulator, 'exchange').mockImplementation(async (apdu) => {
+            if (apdu[1] === 0x05 && apdu[2] === 0x01) {
+                await new Promise<void>((resolve) => confirm = resolve);
+            }
+            return exchange(apdu);
+        });
+        await transport.getCapabilities();
+        const completed: string[] = [];
+        const track = <T>(name: string, p: Promise<T>) => p.then((r) => { completed.push(name); return r; });
+
+        const controller = new AbortController();
+        const all = Promise.all([
+            track('validateAddress', transport.validateAddress(PATH)),
+            track('signData', transport.signData(PATH, { type: 'plaintext', text: 'Hello' })),
+            track('getVersion', transport.getVersion({ priority: 'low' })),
+            track('getAddress', transport.getAddress(PATH))
+        ]);
+        const cancelled = transport.getAddress(PATH, { signal: controller.signal });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(transport.operations.map((o) => [o.name, o.priority, o.state])).toEqual([
+            ['validateAddress', 'normal', 'running'],
+            ['getAddress', 'high', 'queued'],
+            ['getAddress', 'high', 'queued'],
+            ['signData', 'normal', 'queued'],
+            ['getVersion', 'low', 'queued']
+        ]);
+
+        // Cancelled operation leaves the queue without touching the device
+        controller.abort();
+        await expect(cancelled).rejects.toThrow(CancelledError);
+        expect(transport.operations.map((o) => o.name)).toEqual(['validateAddress', 'getAddress', 'signData', 'getVersion']);
+
+        confirm();
+        await all;
+        expect(completed).toEqual(['validateAddress', 'getAddress', 'signData', 'getVersion']);
+        expect(transport.operations).toEqual([]);
+    });
+
+    it('should report progress of signing', async () => {
+        const events: TonProgressEvent[] = [];
+        const listener = (e: TonProgressEvent) => events.push(e);
+        transport.on('progress', listener);
+        const callback: string[] = [];
+        await transport.signData(PATH, { type: 'plaintext', text: 'a'.repeat(300) }, { onProgress: (e) => callback.push(e.type) });
+        expect(events.map(({ operation, ...e }) => e)).toEqual([
+            { type: 'key-fetch', path: 'm/44\'/607\'/0\'/0\'/0\'/0\'' },
+            { type: 'chunk-sent', request: 'sign-data', chunk: 1, chunks: 2 },
+            { type: 'chunk-sent', request: 'sign-data', chunk: 2, chunks: 2 },
+            { type: 'awaiting-confirmation' },
+            { type: 'confirmed' },
+            { type: 'signature-verified' }
+        ]);
+        expect(events.every((e) => e.operation.name === 'signData' && e.operation.id === events[0].operation.id)).toBe(true);
+        expect(callback).toEqual(events.map((e) => e.type));
+
+        // Cached key is not fetched again, rejected prompt is reported
+        events.length = 0;
+        emulator.rejectNext();
+        const messages = [{ to: DESTINATION, sendMode: 3, bounce: false, amount: toNano('1') }];
+        await expect(transport.signMultiTransaction(PATH, { seqno: 1, timeout: 1700000000, messages })).rejects.toThrow(UserRejectedError);
+        expect(events.map((e) => e.type)).toEqual(['chunk-sent', 'awaiting-confirmation', 'rejected']);
+        expect(events[0]).toMatchObject({ request: 'sign-transaction', chunk: 1, chunks: 1, operation: { name: 'signMultiTransaction' } });
+
+        // Removed listener gets no more events
+        events.length = 0;
+        transport.off('progress', listener);
+        await transport.validateAddress(PATH);
+        expect(events).toEqual([]);
+    });
+
+    it('should ignore errors of progress listeners', async () => {
+        const events: string[] = [];
+        transport.on('progress', () => {
+            throw Error('Listener failed');
+        });
+        transport.on('progress', (e) => events.push(e.type));
+        const messages = [{ to: DESTINATION, sendMode: 3, bounce: false, amount: toNano('1') }];
+        const signed = await transport.signMultiTransaction(PATH, { seqno: 1, timeout: 1700000000, messages }, {
+            onProgress: (e) => {
+                if (e.type === 'confirmed') {
+                    throw Error('Callback failed');
+                }
+            }
+        });
+        expect(signVerify(signed.beginParse().skip(512).asCell().hash(), signed.beginParse().loadBuffer(64), (await emulator.getKeyPair(PATH)).publicKey)).toBe(true);
+        expect(events).toEqual(['key-fetch', 'chunk-sent', 'awaiting-confirmation', 'confirmed', 'signature-verified']);
+    });
+
+    it('should report key fetch of the requested path only', async () => {
+        const path = [44, 607, 0, 0, 1, 0];
+        const events: TonProgressEvent[] = [];
+        await transport.signData(path, { type: 'plaintext', text: 'Hello' }, { onProgress: (e) => events.push(e) });
+        expect(events.filter((e) => e.type === 'key-fetch')).toMatchObject([{ type: 'key-fetch', path: 'm/44\'/607\'/0\'/0\'/1\'/0\'' }]);
+    });
+
+    it('should get ton proof reply', async () => {
+        const params = { domain: 'ton.org', timestamp: 1700000000, payload: 'payload' };
+        const reply = await transport.getTonProof(PATH, params, { testOnly: true, chain: -1, walletVersion: 'v5r1' });
+        expect(reply.account.chain).toBe('-3');
+        expect(reply.account.address).toBe(Address.parse((await transport.getAddress(PATH, { testOnly: true, chain: -1, walletVersion: 'v5r1' })).address).toRawString());
+        expect(verifyTonProof(reply, { allowedDomains: ['ton.org'], now: 1700000010, testOnly: true })).toMatchObject({ valid: true, walletVersion: 'v5r1' });
+        expect(verifyTonProof(reply, { allowedDomains: ['ton.org'], now: 1700000010 }).reason).toBe('Account is on chain -3, expected -239');
+
+        const { hash } = await transport.getAddressProof(PATH, { ...params, payload: Buffer.from(params.payload) });
+        expect(hash.equals(tonProofHash(Address.parse((await transport.getAddress(PATH)).address), params.domain, params.timestamp, params.payload))).toBe(true);
+    });
+
+    it('should fail when device is locked', async () => {
+        emulator.lock();
+        await expect(transport.getAddress(PATH)).rejects.toThrow(DeviceLockedError);
+        emulator.unlock();
+        await transport.getAddress(PATH);
+    });
+
+    it('should fail when TON app is not open', async () => {
+        emulator.openApp('BOLOS');
+        await expect(transport.getVersion()).rejects.toThrow(WrongAppError);
+    });
+
+    it('should decode invalid data status', async () => {
+        emulator.failNext(0xB0BD);
+        await expect(transport.getAddress(PATH)).rejects.toThrow(InvalidDataError);
+    });
+});
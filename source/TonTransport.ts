@@ -1,9 +1,20 @@
 import Transport from "@ledgerhq/hw-transport";
-import { Address, beginCell, Cell, contractAddress, SendMode, StateInit, storeStateInit } from "@ton/core";
+import EventEmitter from "events";
+import { Address, Cell, contractAddress, SendMode, StateInit } from "@ton/core";
 import { signVerify } from '@ton/crypto';
-import { AsyncLock } from 'teslabot';
-import { writeAddress, writeCellRef, writeUint16, writeUint32, writeUint64, writeUint8, writeVarUInt } from "./utils/ledgerWriter";
-import { getInit } from "./utils/getInit";
+import { writeCellRef, writeUint32, writeUint64, writeUint8 } from "./utils/ledgerWriter";
+import { getInit, getWalletId, WalletVersion } from "./utils/getInit";
+import { packSignedTransfer, serializeTransfer, walletVersionCode } from "./utils/serializeTransfer";
+import { ApduContext, DeviceLockedError, errorFromStatusCode, InvalidDataError, UnsupportedFeatureError, UnsupportedInstructionError, UserRejectedError, WrongAppError } from "./errors";
+import { getCapabilities, parseVersion, supportsSettings, TonAppCapabilities, TonAppSettings } from "./utils/capabilities";
+import { formatPath, TonPath, validatePath } from "./utils/path";
+import { abortable, CancellationOptions, throwIfAborted, withCancellation } from "./utils/cancellation";
+import { createExternalMessage, TonExternalMessage } from "./utils/externalMessage";
+import { createTonProofReply } from "./utils/tonProof";
+import { serializeSignData } from "./utils/signData";
+import { MemoryPublicKeyStore, PublicKeyCache, PublicKeyStore } from "./utils/publicKeyCache";
+import { assertValid, validateSignData, validateTransaction } from "./utils/validation";
+import { OperationQueue, TonOperation, TonOperationPriority } from "./utils/operationQueue";
 
 const LEDGER_SYSTEM = 0xB0;
 const LEDGER_CLA = 0xe0;
@@ -12,15 +23,56 @@ const INS_ADDRESS = 0x05;
 const INS_SIGN_TX = 0x06;
 const INS_PROOF = 0x08;
 const INS_SIGN_DATA = 0x09;
+const INS_SETTINGS = 0x0A;
 
 export type TonPayloadFormat =
     | { type: 'comment', text: string }
     | { type: 'jetton-transfer', queryId: bigint | null, amount: bigint, destination: Address, responseDestination: Address, customPayload: Cell | null, forwardAmount: bigint, forwardPayload: Cell | null }
     | { type: 'nft-transfer', queryId: bigint | null, newOwner: Address, responseDestination: Address, customPayload: Cell | null, forwardAmount: bigint, forwardPayload: Cell | null }
+    | { type: 'jetton-burn', queryId: bigint | null, amount: bigint, responseDestination: Address, customPayload: Cell | null }
+    | { type: 'change-dns-record', queryId: bigint | null, record: TonDNSRecord }
+    | { type: 'nft-prove-ownership', queryId: bigint | null, destination: Address, forwardPayload: Cell, withContent: boolean }
+    | { type: 'excesses', queryId: bigint | null }
+    | { type: 'single-nominator-withdraw', queryId: bigint | null, amount: bigint }
+    | { type: 'single-nominator-change-validator', queryId: bigint | null, address: Address }
+    | { type: 'tonstakers-deposit', queryId: bigint | null, appId: bigint | null }
+    | { type: 'tonstakers-withdraw', queryId: bigint | null, amount: bigint, responseDestination: Address, waitTillRoundEnd: boolean, fillOrKill: boolean }
+    | { type: 'unsafe', message: Cell }
+
+export type TonDNSRecord =
+    | { type: 'wallet', value: { address: Address, isWallet: boolean } | null }
+    | { type: 'site', value: { adnlAddress: Buffer } | null }
+    | { type: 'storage', value: { bagId: Buffer } | null }
+
+export type TonTransactionMessage = {
+    to: Address,
+    sendMode: SendMode,
+    bounce: boolean,
+    amount: bigint,
+    stateInit?: StateInit,
+    payload?: TonPayloadFormat
+}
 
 export type SignDataRequest =
     | { type: 'plaintext', text: string }
     | { type: 'app-data', address?: Address, domain?: string, data: Cell, ext?: Cell }
+    | { type: 'text', text: string, domain: string }
+    | { type: 'binary', bytes: Buffer, domain: string }
+    | { type: 'cell', schema: string, cell: Cell, domain: string }
+
+type TonProgressEventData =
+    | { type: 'key-fetch', path: string }
+    | { type: 'chunk-sent', request: 'sign-transaction' | 'sign-data', chunk: number, chunks: number }
+    | { type: 'awaiting-confirmation' }
+    | { type: 'confirmed' }
+    | { type: 'rejected' }
+    | { type: 'signature-verified' }
+
+/**
+ * Progress of an operation. The last chunk is reported right before it is sent, since
+ * the device answers it only after the user reviews the request.
+ */
+export type TonProgressEvent = TonProgressEventData & { operation: { id: number, name: string } };
 
 function chunks(buf: Buffer, n: number): Buffer[] {
     const nc = Math.ceil(buf.length / n);
@@ -31,10 +83,35 @@ function chunks(buf: Buffer, n: number): Buffer[] {
     return cs;
 }
 
-function processAddressFlags(opts?: { testOnly?: boolean, bounceable?: boolean, chain?: number }): { testOnly: boolean, bounceable: boolean, chain: number, flags: number } {
+function statusCodeOf(e: any): number | null {
+    if (e && e.name === 'TransportStatusError' && typeof e.statusCode === 'number') {
+        return e.statusCode;
+    }
+    if (e && e.name === 'LockedDeviceError') {
+        return 0x5515;
+    }
+    return null;
+}
+
+async function withStatusErrors<T>(context: ApduContext, f: () => Promise<T>): Promise<T> {
+    try {
+        return await f();
+    } catch (e) {
+        const statusCode = statusCodeOf(e);
+        if (statusCode !== null) {
+            throw errorFromStatusCode(statusCode, context);
+        }
+        throw e;
+    }
+}
+
+function processAddressFlags(opts?: { testOnly?: boolean, bounceable?: boolean, chain?: number, walletVersion?: WalletVersion, subwalletId?: number }): { testOnly: boolean, bounceable: boolean, chain: number, walletVersion: WalletVersion, subwalletId: number | undefined, customWalletId: boolean, flags: number, specifiers: Buffer } {
     const bounceable = opts?.bounceable ?? true;
     const testOnly = opts?.testOnly ?? false;
     const chain = opts?.chain ?? 0;
+    const walletVersion = opts?.walletVersion ?? 'v4';
+    const subwalletId = opts?.subwalletId;
+    const customWalletId = subwalletId !== undefined && getWalletId(chain, walletVersion, subwalletId, testOnly) !== getWalletId(chain, walletVersion, undefined, testOnly);
 
     let flags = 0x00;
     if (testOnly) {
@@ -44,112 +121,261 @@ function processAddressFlags(opts?: { testOnly?: boolean, bounceable?: boolean,
         flags |= 0x02;
     }
 
-    return { bounceable, testOnly, chain, flags };
+    // Wallet specifiers of TON app 2.1.0 are appended to the path: wallet type and V4 wallet id.
+    // V5R1 wallet type is an experimental layout with the subwallet number in place of the wallet id,
+    // the device takes the network of its wallet id from the testnet flag. It is sent only when
+    // capabilities report V5R1, which requires experimental layouts.
+    let specifiers = Buffer.alloc(0);
+    if (walletVersion !== 'v4' || customWalletId) {
+        flags |= 0x04;
+        specifiers = Buffer.concat([
+            writeUint8(walletVersionCode(walletVersion)),
+            writeUint32(walletVersion === 'v4' ? getWalletId(chain, walletVersion, subwalletId) : subwalletId ?? 0)
+        ]);
+    }
+
+    return { bounceable, testOnly, chain, walletVersion, subwalletId, customWalletId, flags, specifiers };
 }
 
 export class TonTransport {
     readonly transport: Transport;
-    #lock = new AsyncLock();
-
-    constructor(transport: Transport) {
+    #queue = new OperationQueue();
+    #events = new EventEmitter();
+    #current: { operation: TonOperation, onProgress?: (event: TonProgressEvent) => void } | null = null;
+    #capabilities: Promise<TonAppCapabilities> | null = null;
+    #publicKeys: PublicKeyCache | null;
+    #experimentalLayouts: boolean;
+    #abandoned: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Public keys are cached in memory by default, pass a persistent store to keep them
+     * between sessions or null to always fetch them from the device.
+     * Experimental layouts enable Wallet V5R1 and multiple messages on TON app 2.2.0 and later,
+     * no released app implements them yet, only TonEmulatorTransport does.
+     */
+    constructor(transport: Transport, opts?: { publicKeyStore?: PublicKeyStore | null, experimentalLayouts?: boolean }) {
         this.transport = transport;
+        const store = opts?.publicKeyStore === undefined ? new MemoryPublicKeyStore() : opts.publicKeyStore;
+        this.#publicKeys = store ? new PublicKeyCache(store) : null;
+        this.#experimentalLayouts = opts?.experimentalLayouts ?? false;
+    }
+
+    /**
+     * Running and queued operations, each one holds the device until it completes or fails
+     */
+    get operations(): TonOperation[] {
+        return this.#queue.operations;
+    }
+
+    on(event: 'progress', listener: (event: TonProgressEvent) => void) {
+        this.#events.on(event, listener);
+    }
+
+    off(event: 'progress', listener: (event: TonProgressEvent) => void) {
+        this.#events.off(event, listener);
+    }
+
+    #operation<T>(
+        name: string,
+        priority: TonOperationPriority,
+        opts: (CancellationOptions & { priority?: TonOperationPriority, onProgress?: (event: TonProgressEvent) => void }) | undefined,
+        f: (signal?: AbortSignal) => Promise<T>
+    ): Promise<T> {
+        return withCancellation(opts, (signal) => this.#queue.run(name, opts?.priority ?? priority, signal, async (operation) => {
+            // Only one operation runs at a time, so events are attributed to the current one
+            this.#current = { operation, onProgress: opts?.onProgress };
+            try {
+                return await f(signal);
+            } finally {
+                this.#current = null;
+            }
+        }));
+    }
+
+    #emit(data: TonProgressEventData) {
+        const current = this.#current;
+        if (!current) {
+            return;
+        }
+        const event: TonProgressEvent = { ...data, operation: { id: current.operation.id, name: current.operation.name } };
+
+        // Events are emitted in the middle of requests, so a throwing listener must not fail the operation
+        const listeners = [...(current.onProgress ? [current.onProgress] : []), ...this.#events.listeners('progress')];
+        for (const listener of listeners) {
+            try {
+                listener(event);
+            } catch (e) {
+                // Ignored
+            }
+        }
     }
 
     //
     // Apps
     //
 
-    async #getCurrentApp(): Promise<{ name: string, version: string }> {
-        return this.#lock.inLock(async () => {
-            let r = await this.transport.send(
-                LEDGER_SYSTEM,
-                0x01,
-                0x00,
-                0x00,
-                undefined,
-                [0x9000]
-            );
-            let data = r.slice(0, r.length - 2);
-            if (data[0] !== 0x01) {
-                throw Error('Invalid response');
-            }
-            let nameLength = data[1];
-            let name = data.slice(2, 2 + nameLength).toString();
-            let versionLength = data[2 + nameLength];
-            let version = data.slice(3 + nameLength, 3 + nameLength + versionLength).toString();
-            return { name, version };
-        });
+    async #getCurrentApp(signal?: AbortSignal): Promise<{ name: string, version: string }> {
+        let data = await this.#exchange({ cla: LEDGER_SYSTEM, ins: 0x01, p1: 0x00, p2: 0x00 }, undefined, signal);
+        if (data[0] !== 0x01) {
+            throw Error('Invalid response');
+        }
+        let nameLength = data[1];
+        let name = data.slice(2, 2 + nameLength).toString();
+        let versionLength = data[2 + nameLength];
+        let version = data.slice(3 + nameLength, 3 + nameLength + versionLength).toString();
+        return { name, version };
     }
 
-    async isAppOpen() {
-        return (await this.#getCurrentApp()).name === 'TON';
+    async isAppOpen(opts?: CancellationOptions & { priority?: TonOperationPriority }) {
+        return this.#operation('isAppOpen', 'high', opts, async (signal) => (await this.#getCurrentApp(signal)).name === 'TON');
     }
 
-    async getVersion(): Promise<string> {
-        let loaded = await this.#doRequest(INS_VERSION, 0x00, 0x00, Buffer.alloc(0));
+    async getVersion(opts?: CancellationOptions & { priority?: TonOperationPriority }): Promise<string> {
+        return this.#operation('getVersion', 'high', opts, (signal) => this.#getVersion(signal));
+    }
+
+    async #getVersion(signal?: AbortSignal) {
+        let loaded = await this.#doRequest(INS_VERSION, 0x00, 0x00, Buffer.alloc(0), signal);
         const [major, minor, patch] = loaded;
         return `${major}.${minor}.${patch}`;
     }
 
+    async getSettings(opts?: CancellationOptions & { priority?: TonOperationPriority }): Promise<TonAppSettings | null> {
+        return this.#operation('getSettings', 'high', opts, async (signal) => this.#getSettings(await this.#getVersion(signal), signal));
+    }
+
+    async getCapabilities(opts?: CancellationOptions & { priority?: TonOperationPriority }): Promise<TonAppCapabilities> {
+        // Loading is shared between callers, so cancelling one of them doesn't abort it
+        const loaded = this.#capabilities;
+        if (loaded) {
+            return withCancellation(opts, (signal) => abortable(loaded, signal));
+        }
+        return this.#operation('getCapabilities', 'high', opts, () => this.#loadCapabilities());
+    }
+
+    #loadCapabilities(): Promise<TonAppCapabilities> {
+        if (!this.#capabilities) {
+            const capabilities = (async () => {
+                const version = await this.#getVersion();
+                return getCapabilities(version, await this.#getSettings(version), { experimentalLayouts: this.#experimentalLayouts });
+            })();
+            this.#capabilities = capabilities;
+            capabilities.catch(() => {
+                if (this.#capabilities === capabilities) {
+                    this.#capabilities = null;
+                }
+            });
+        }
+        return this.#capabilities;
+    }
+
+    async #getSettings(version: string, signal?: AbortSignal): Promise<TonAppSettings | null> {
+        if (!supportsSettings(parseVersion(version))) {
+            return null;
+        }
+        // Settings are informational, so an app that doesn't answer the request is treated as one without them
+        let loaded: Buffer;
+        try {
+            loaded = await this.#doRequest(INS_SETTINGS, 0x00, 0x00, Buffer.alloc(0), signal);
+        } catch (e) {
+            if (e instanceof UnsupportedInstructionError || e instanceof InvalidDataError) {
+                return null;
+            }
+            throw e;
+        }
+        if (loaded.length !== 1) {
+            return null;
+        }
+        return {
+            blindSigning: (loaded[0] & 0x01) !== 0,
+            expertMode: (loaded[0] & 0x02) !== 0
+        };
+    }
+
+    async #checkWallet(walletVersion: WalletVersion, customWalletId: boolean) {
+        if (walletVersion === 'v4' && !customWalletId) {
+            return;
+        }
+        const capabilities = await this.#loadCapabilities();
+        if (!capabilities.walletVersions.includes(walletVersion)) {
+            throw new UnsupportedFeatureError(`Wallet version '${walletVersion}' is not supported by the installed TON app, please update it`, 'wallet-version');
+        }
+        if (customWalletId && !capabilities.subwalletId) {
+            throw new UnsupportedFeatureError('Custom subwallet id is not supported by the installed TON app, please update it', 'subwallet-id');
+        }
+    }
+
     //
     // Operations
     //
 
-    async getAddress(path: number[], opts?: { testOnly?: boolean, bounceable?: boolean, chain?: number }) {
+    async getAddress(path: TonPath, opts?: { testOnly?: boolean, bounceable?: boolean, chain?: number, walletVersion?: WalletVersion, subwalletId?: number, signal?: AbortSignal, timeout?: number, priority?: TonOperationPriority }) {
+        return this.#operation('getAddress', 'high', opts, (signal) => this.#getAddress(path, opts, signal));
+    }
 
+    async #getAddress(path: TonPath, opts: { testOnly?: boolean, bounceable?: boolean, chain?: number, walletVersion?: WalletVersion, subwalletId?: number } | undefined, signal?: AbortSignal) {
         // Check path
-        validatePath(path);
+        const pathElements = validatePath(path);
 
         // Resolve flags
-        const { bounceable, testOnly, chain } = processAddressFlags(opts);
+        const { bounceable, testOnly, chain, walletVersion, subwalletId } = processAddressFlags(opts);
 
         // Get public key
-        let response = await this.#doRequest(INS_ADDRESS, 0x00, 0x00, pathElementsToBuffer(path.map((v) => v + 0x80000000)));
+        let response = await this.#doRequest(INS_ADDRESS, 0x00, 0x00, pathElementsToBuffer(pathElements.map((v) => v + 0x80000000)), signal);
         if (response.length !== 32) {
             throw Error('Invalid response');
         }
+        await this.#publicKeys?.put(pathElements, response);
 
         // Contract
-        const contract = getInit(chain, response);
+        const contract = getInit(chain, response, walletVersion, subwalletId, testOnly);
         const address = contractAddress(chain, contract);
 
         return { address: address.toString({ bounceable, testOnly }), publicKey: response };
     }
 
-    async validateAddress(path: number[], opts?: { testOnly?: boolean, bounceable?: boolean, chain?: number }) {
+    async validateAddress(path: TonPath, opts?: { testOnly?: boolean, bounceable?: boolean, chain?: number, walletVersion?: WalletVersion, subwalletId?: number, signal?: AbortSignal, timeout?: number, priority?: TonOperationPriority, onProgress?: (event: TonProgressEvent) => void }) {
+        return this.#operation('validateAddress', 'normal', opts, async (signal) => {
+            // Check path
+            const pathElements = validatePath(path);
 
-        // Check path
-        validatePath(path);
+            // Resolve flags
+            const { bounceable, testOnly, chain, walletVersion, subwalletId, customWalletId, flags, specifiers } = processAddressFlags(opts);
+            await this.#checkWallet(walletVersion, customWalletId);
 
-        // Resolve flags
-        const { bounceable, testOnly, chain, flags } = processAddressFlags(opts);
-
-        // Get public key
-        let response = await this.#doRequest(INS_ADDRESS, 0x01, flags, pathElementsToBuffer(path.map((v) => v + 0x80000000)));
-        if (response.length !== 32) {
-            throw Error('Invalid response');
-        }
+            // Get public key
+            let response = await this.#confirmed(() => this.#doRequest(INS_ADDRESS, 0x01, flags, Buffer.concat([pathElementsToBuffer(pathElements.map((v) => v + 0x80000000)), specifiers]), signal));
+            if (response.length !== 32) {
+                throw Error('Invalid response');
+            }
+            await this.#publicKeys?.put(pathElements, response);
 
-        // Contract
-        const contract = getInit(chain, response);
-        const address = contractAddress(chain, contract);
+            // Contract
+            const contract = getInit(chain, response, walletVersion, subwalletId, testOnly);
+            const address = contractAddress(chain, contract);
 
-        return { address: address.toString({ bounceable, testOnly }), publicKey: response };
+            return { address: address.toString({ bounceable, testOnly }), publicKey: response };
+        });
     }
 
-    async getAddressProof(path: number[], params: { domain: string, timestamp: number, payload: Buffer }, opts?: { testOnly?: boolean, bounceable?: boolean, chain?: number }) {
+    async getAddressProof(path: TonPath, params: { domain: string, timestamp: number, payload: Buffer }, opts?: { testOnly?: boolean, bounceable?: boolean, chain?: number, walletVersion?: WalletVersion, subwalletId?: number, publicKey?: Buffer, signal?: AbortSignal, timeout?: number, priority?: TonOperationPriority, onProgress?: (event: TonProgressEvent) => void }) {
+        return this.#operation('getAddressProof', 'normal', opts, (signal) => this.#getAddressProof(path, params, opts, signal));
+    }
 
+    async #getAddressProof(path: TonPath, params: { domain: string, timestamp: number, payload: Buffer }, opts: { testOnly?: boolean, bounceable?: boolean, chain?: number, walletVersion?: WalletVersion, subwalletId?: number, publicKey?: Buffer } | undefined, signal?: AbortSignal) {
         // Check path
-        validatePath(path);
+        const pathElements = validatePath(path);
 
-        let publicKey = (await this.getAddress(path)).publicKey;
+        let publicKey = opts?.publicKey ?? await this.#getPublicKey(pathElements, signal);
 
         // Resolve flags
-        const { flags } = processAddressFlags(opts);
+        const { walletVersion, customWalletId, flags, specifiers } = processAddressFlags(opts);
+        await this.#checkWallet(walletVersion, customWalletId);
 
         const domainBuf = Buffer.from(params.domain, 'utf-8');
         const reqBuf = Buffer.concat([
-            pathElementsToBuffer(path.map((v) => v + 0x80000000)),
+            pathElementsToBuffer(pathElements.map((v) => v + 0x80000000)),
+            specifiers,
             writeUint8(domainBuf.length),
             domainBuf,
             writeUint64(BigInt(params.timestamp)),
@@ -157,121 +383,74 @@ export class TonTransport {
         ]);
 
         // Get public key
-        let res = await this.#doRequest(INS_PROOF, 0x01, flags, reqBuf);
+        let res = await this.#confirmed(() => this.#doRequest(INS_PROOF, 0x01, flags, reqBuf, signal));
         let signature = res.slice(1, 1 + 64);
         let hash = res.slice(2 + 64, 2 + 64 + 32);
         if (!signVerify(hash, signature, publicKey)) {
             throw Error('Received signature is invalid');
         }
+        this.#emit({ type: 'signature-verified' });
 
         return { signature, hash };
     }
 
-    async signData(path: number[], req: SignDataRequest, opts?: { timestamp?: number }) {
-        validatePath(path);
-
-        const publicKey = (await this.getAddress(path)).publicKey;
+    /**
+     * Signs a ton_proof and returns TON Connect reply with the account
+     */
+    async getTonProof(path: TonPath, params: { domain: string, timestamp: number, payload: string }, opts?: { testOnly?: boolean, chain?: number, walletVersion?: WalletVersion, subwalletId?: number, publicKey?: Buffer, signal?: AbortSignal, timeout?: number, priority?: TonOperationPriority, onProgress?: (event: TonProgressEvent) => void }) {
+        return this.#operation('getTonProof', 'normal', opts, async (signal) => {
+            const pathElements = validatePath(path);
+            const publicKey = opts?.publicKey ?? await this.#getPublicKey(pathElements, signal);
+            const { signature } = await this.#getAddressProof(pathElements, {
+                domain: params.domain,
+                timestamp: params.timestamp,
+                payload: Buffer.from(params.payload, 'utf-8')
+            }, { ...opts, publicKey }, signal);
+            return createTonProofReply({ ...params, publicKey, signature, chain: opts?.chain, testOnly: opts?.testOnly, walletVersion: opts?.walletVersion, subwalletId: opts?.subwalletId });
+        });
+    }
 
-        const timestamp = opts?.timestamp ?? Math.floor(Date.now() / 1000)
+    async signData(path: TonPath, req: SignDataRequest, opts?: { timestamp?: number, chain?: number, testOnly?: boolean, walletVersion?: WalletVersion, subwalletId?: number, publicKey?: Buffer, signal?: AbortSignal, timeout?: number, priority?: TonOperationPriority, onProgress?: (event: TonProgressEvent) => void }) {
+        return this.#operation('signData', 'normal', opts, async (signal) => {
+            const pathElements = validatePath(path);
+            assertValid(validateSignData(req, { timestamp: opts?.timestamp }));
 
-        let schema: number
-        let data: Buffer
-        let cell: Cell
-        switch (req.type) {
-            case 'plaintext': {
-                schema = 0x754bf91b;
-                data = Buffer.from(req.text, 'ascii');
-                cell = beginCell().storeStringTail(req.text).endCell();
-                break;
+            const capabilities = await this.#loadCapabilities();
+            if (!capabilities.signDataSchemas.includes(req.type)) {
+                throw new UnsupportedFeatureError(`Sign data request type '${req.type}' is not supported by the installed TON app, please update it`, 'sign-data-schema');
             }
-            case 'app-data': {
-                if (req.address === undefined && req.domain === undefined) {
-                    throw new Error('At least one of `address` and `domain` must be set when using \'app-data\' request');
-                }
-                schema = 0x54b58535;
-                let b = beginCell();
-                let dp: Buffer[] = [];
-
-                if (req.address !== undefined) {
-                    b.storeBit(1);
-                    b.storeAddress(req.address);
-                    dp.push(writeUint8(1), writeAddress(req.address));
-                } else {
-                    b.storeBit(0);
-                    dp.push(writeUint8(0));
-                }
 
-                if (req.domain !== undefined) {
-                    b.storeBit(1);
-                    let inner = beginCell();
-                    req.domain.split('.').reverse().forEach(p => {
-                        inner.storeBuffer(Buffer.from(p, 'ascii'));
-                        inner.storeUint(0, 8);
-                    });
-                    b.storeRef(inner);
-                    const db = Buffer.from(req.domain, 'ascii');
-                    dp.push(writeUint8(1), writeUint8(db.length), db);
-                } else {
-                    b.storeBit(0);
-                    dp.push(writeUint8(0));
-                }
+            const publicKey = opts?.publicKey ?? await this.#getPublicKey(pathElements, signal);
 
-                b.storeRef(req.data);
-                dp.push(writeCellRef(req.data));
+            const timestamp = opts?.timestamp ?? Math.floor(Date.now() / 1000)
 
-                if (req.ext !== undefined) {
-                    b.storeBit(1);
-                    b.storeRef(req.ext);
-                    dp.push(writeUint8(1), writeCellRef(req.ext));
-                } else {
-                    b.storeBit(0);
-                    dp.push(writeUint8(0));
-                }
+            // Requests of TON Connect format are bound to the wallet address
+            const chain = opts?.chain ?? 0;
+            const address = contractAddress(chain, getInit(chain, publicKey, opts?.walletVersion, opts?.subwalletId, opts?.testOnly));
+            const { data: pkg, cell, hash: expectedHash, message } = serializeSignData(req, timestamp, address);
+
+            const res = await this.#sendChunked(INS_SIGN_DATA, pathElements, pkg, signal);
 
-                data = Buffer.concat(dp);
-                cell = b.endCell();
-                break;
+            let signature = res.subarray(1, 1 + 64);
+            let hash = res.subarray(2 + 64, 2 + 64 + 32);
+            if (!hash.equals(expectedHash)) {
+                throw Error('Hash mismatch. Expected: ' + expectedHash.toString('hex') + ', got: ' + hash.toString('hex'));
             }
-            default: {
-                throw new Error(`Sign data request type '${(req as any).type}' not supported`)
+            if (!signVerify(message, signature, publicKey)) {
+                throw Error('Received signature is invalid');
             }
-        }
-
-        const commonPart = Buffer.concat([
-            writeUint32(schema),
-            writeUint64(BigInt(timestamp)),
-        ]);
+            this.#emit({ type: 'signature-verified' });
 
-        const pkg = Buffer.concat([
-            commonPart,
-            data,
-        ])
-
-        await this.#doRequest(INS_SIGN_DATA, 0x00, 0x03, pathElementsToBuffer(path.map((v) => v + 0x80000000)));
-        const pkgCs = chunks(pkg, 255);
-        for (let i = 0; i < pkgCs.length - 1; i++) {
-            await this.#doRequest(INS_SIGN_DATA, 0x00, 0x02, pkgCs[i]);
-        }
-        const res = await this.#doRequest(INS_SIGN_DATA, 0x00, 0x00, pkgCs[pkgCs.length-1]);
-
-        let signature = res.subarray(1, 1 + 64);
-        let hash = res.subarray(2 + 64, 2 + 64 + 32);
-        if (!hash.equals(cell.hash())) {
-            throw Error('Hash mismatch. Expected: ' + cell.hash().toString('hex') + ', got: ' + hash.toString('hex'));
-        }
-        if (!signVerify(Buffer.concat([commonPart, hash]), signature, publicKey)) {
-            throw Error('Received signature is invalid');
-        }
-
-        return {
-            signature,
-            cell,
-            timestamp,
-        }
+            return {
+                signature,
+                cell,
+                timestamp,
+            }
+        });
     }
 
     signTransaction = async (
-        path: number[],
+        path: TonPath,
         transaction: {
             to: Address,
             sendMode: SendMode,
@@ -281,211 +460,107 @@ export class TonTransport {
             amount: bigint,
             stateInit?: StateInit,
             payload?: TonPayloadFormat
-        }
+        },
+        opts?: { chain?: number, testOnly?: boolean, walletVersion?: WalletVersion, subwalletId?: number, acknowledgeBlindSigning?: boolean, publicKey?: Buffer, signal?: AbortSignal, timeout?: number, priority?: TonOperationPriority, onProgress?: (event: TonProgressEvent) => void }
     ) => {
+        // Validated here, so that issues refer to fields of the passed transaction
+        assertValid(validateTransaction(transaction, { chain: opts?.chain, walletVersion: opts?.walletVersion, subwalletId: opts?.subwalletId }));
+        return this.#operation('signTransaction', 'normal', opts, (signal) => this.#signMultiTransaction(path, {
+            seqno: transaction.seqno,
+            timeout: transaction.timeout,
+            messages: [{
+                to: transaction.to,
+                sendMode: transaction.sendMode,
+                bounce: transaction.bounce,
+                amount: transaction.amount,
+                stateInit: transaction.stateInit,
+                payload: transaction.payload
+            }]
+        }, opts, signal));
+    }
 
-        // Check path
-        validatePath(path);
-
-        //
-        // Fetch key
-        //
-
-        let publicKey = (await this.getAddress(path)).publicKey;
-
-        //
-        // Create package
-        //
-
-        let pkg = Buffer.concat([
-            writeUint8(0), // Header
-            writeUint32(transaction.seqno),
-            writeUint32(transaction.timeout),
-            writeVarUInt(transaction.amount),
-            writeAddress(transaction.to),
-            writeUint8(transaction.bounce ? 1 : 0),
-            writeUint8(transaction.sendMode),
-        ]);
+    /**
+     * Signs a transfer with up to 4 (V4) or 255 (V5) messages. Released TON apps sign one message
+     * per transfer: several messages are sent in an experimental layout that only TonEmulatorTransport
+     * implements, so they need `experimentalLayouts` and fail with UnsupportedFeatureError otherwise.
+     */
+    signMultiTransaction = async (
+        path: TonPath,
+        transaction: {
+            seqno: number,
+            timeout: number,
+            messages: TonTransactionMessage[]
+        },
+        opts?: { chain?: number, testOnly?: boolean, walletVersion?: WalletVersion, subwalletId?: number, acknowledgeBlindSigning?: boolean, publicKey?: Buffer, signal?: AbortSignal, timeout?: number, priority?: TonOperationPriority, onProgress?: (event: TonProgressEvent) => void }
+    ) => {
+        assertValid(validateTransaction(transaction, { chain: opts?.chain, walletVersion: opts?.walletVersion, subwalletId: opts?.subwalletId }));
+        return this.#operation('signMultiTransaction', 'normal', opts, (signal) => this.#signMultiTransaction(path, transaction, opts, signal));
+    }
 
-        //
-        // State init
-        //
+    #signMultiTransaction = async (
+        path: TonPath,
+        transaction: {
+            seqno: number,
+            timeout: number,
+            messages: TonTransactionMessage[]
+        },
+        opts: { chain?: number, testOnly?: boolean, walletVersion?: WalletVersion, subwalletId?: number, acknowledgeBlindSigning?: boolean, publicKey?: Buffer } | undefined,
+        signal?: AbortSignal
+    ) => {
+        // Check path
+        const pathElements = validatePath(path);
 
-        let stateInit: Cell | null = null;
-        if (transaction.stateInit) {
-            stateInit = beginCell()
-                .store(storeStateInit(transaction.stateInit))
-                .endCell();
-            pkg = Buffer.concat([
-                pkg,
-                writeUint8(1),
-                writeUint16(stateInit.depth()),
-                stateInit.hash()
-            ])
-        } else {
-            pkg = Buffer.concat([
-                pkg,
-                writeUint8(0)
-            ]);
+        // Check messages, fields are validated by the callers
+        const walletVersion = opts?.walletVersion ?? 'v4';
+        if (transaction.messages.some((m) => m.payload?.type === 'unsafe') && opts?.acknowledgeBlindSigning !== true) {
+            throw Error('Unsafe payloads are signed blindly and require `acknowledgeBlindSigning` option');
         }
 
-        //
-        // Payload
-        //
-
-        let payload: Cell | null = null;
-        let hints: Buffer = Buffer.concat([writeUint8(0)]);
-        if (transaction.payload) {
-            if (transaction.payload.type === 'comment') {
-                hints = Buffer.concat([
-                    writeUint8(1),
-                    writeUint32(0x00),
-                    writeUint16(Buffer.from(transaction.payload.text).length),
-                    Buffer.from(transaction.payload.text)
-                ]);
-                payload = beginCell()
-                    .storeUint(0, 32)
-                    .storeBuffer(Buffer.from(transaction.payload.text))
-                    .endCell()
-            } else if (transaction.payload.type === 'jetton-transfer' || transaction.payload.type === 'nft-transfer') {
-                hints = Buffer.concat([
-                    writeUint8(1),
-                    writeUint32(transaction.payload.type === 'jetton-transfer' ? 0x01 : 0x02)
-                ]);
-
-                let b = beginCell()
-                    .storeUint(transaction.payload.type === 'jetton-transfer' ? 0x0f8a7ea5 : 0x5fcc3d14, 32);
-                let d = Buffer.alloc(0);
-
-                if (transaction.payload.queryId !== null) {
-                    d = Buffer.concat([d, writeUint8(1), writeUint64(transaction.payload.queryId)]);
-                    b = b.storeUint(transaction.payload.queryId, 64);
-                } else {
-                    d = Buffer.concat([d, writeUint8(0)]);
-                    b = b.storeUint(0, 64);
-                }
-
-                if (transaction.payload.type === 'jetton-transfer') {
-                    d = Buffer.concat([d, writeVarUInt(transaction.payload.amount)]);
-                    b = b.storeCoins(transaction.payload.amount);
-
-                    d = Buffer.concat([d, writeAddress(transaction.payload.destination)]);
-                    b = b.storeAddress(transaction.payload.destination);
-                } else {
-                    d = Buffer.concat([d, writeAddress(transaction.payload.newOwner)]);
-                    b = b.storeAddress(transaction.payload.newOwner);
-                }
-
-                d = Buffer.concat([d, writeAddress(transaction.payload.responseDestination)]);
-                b = b.storeAddress(transaction.payload.responseDestination);
-
-                if (transaction.payload.customPayload !== null) {
-                    d = Buffer.concat([d, writeUint8(1), writeCellRef(transaction.payload.customPayload)]);
-                    b = b.storeMaybeRef(transaction.payload.customPayload);
-                } else {
-                    d = Buffer.concat([d, writeUint8(0)]);
-                    b = b.storeMaybeRef(transaction.payload.customPayload);
-                }
-
-                d = Buffer.concat([d, writeVarUInt(transaction.payload.forwardAmount)]);
-                b = b.storeCoins(transaction.payload.forwardAmount);
-
-                if (transaction.payload.forwardPayload !== null) {
-                    d = Buffer.concat([d, writeUint8(1), writeCellRef(transaction.payload.forwardPayload)]);
-                    b = b.storeMaybeRef(transaction.payload.forwardPayload);
-                } else {
-                    d = Buffer.concat([d, writeUint8(0)]);
-                    b = b.storeMaybeRef(transaction.payload.forwardPayload);
-                }
-
-                payload = b.endCell();
-                hints = Buffer.concat([
-                    hints,
-                    writeUint16(d.length),
-                    d
-                ])
+        // Check capabilities
+        const capabilities = await this.#loadCapabilities();
+        if (!capabilities.walletVersions.includes(walletVersion)) {
+            throw new UnsupportedFeatureError(`Wallet version '${walletVersion}' is not supported by the installed TON app, please update it`, 'wallet-version');
+        }
+        if (transaction.messages.length > 1 && !capabilities.multipleMessages) {
+            throw new UnsupportedFeatureError('Multiple messages are not supported by the installed TON app, please update it', 'multiple-messages');
+        }
+        // Default V4 wallet id depends on the chain, so only other ids need the subwallet capability
+        const chain = opts?.chain ?? 0;
+        const walletId = getWalletId(chain, walletVersion, opts?.subwalletId, opts?.testOnly);
+        if (walletVersion === 'v4' && walletId !== getWalletId(chain, walletVersion) && !capabilities.subwalletId) {
+            throw new UnsupportedFeatureError(`Wallet id ${walletId} is not supported by the installed TON app, please update it`, 'subwallet-id');
+        }
+        for (let m of transaction.messages) {
+            if (m.payload && !capabilities.payloadTypes.includes(m.payload.type)) {
+                throw new UnsupportedFeatureError(`Payload type '${m.payload.type}' is not supported by the installed TON app, please update it`, 'payload-type');
+            }
+        }
+        if (transaction.messages.some((m) => m.payload?.type === 'unsafe')) {
+            // Settings could be changed on the device at any time, so they are always fetched fresh
+            const { major, minor, patch } = capabilities.version;
+            const settings = await this.#getSettings(`${major}.${minor}.${patch}`, signal);
+            if (settings && !settings.blindSigning) {
+                throw new UnsupportedFeatureError('Blind signing is disabled in the TON app settings', 'blind-signing');
             }
         }
 
         //
-        // Serialize payload
+        // Fetch key
         //
 
-        if (payload) {
-            pkg = Buffer.concat([
-                pkg,
-                writeUint8(1),
-                writeUint16(payload.depth()),
-                payload.hash(),
-                hints
-            ])
-        } else {
-            pkg = Buffer.concat([
-                pkg,
-                writeUint8(0),
-                writeUint8(0)
-            ]);
-        }
+        let publicKey = opts?.publicKey ?? await this.#getPublicKey(pathElements, signal);
 
         //
-        // Send package
+        // Create package
         //
 
-        await this.#doRequest(INS_SIGN_TX, 0x00, 0x03, pathElementsToBuffer(path.map((v) => v + 0x80000000)));
-        const pkgCs = chunks(pkg, 255);
-        for (let i = 0; i < pkgCs.length - 1; i++) {
-            await this.#doRequest(INS_SIGN_TX, 0x00, 0x02, pkgCs[i]);
-        }
-        let res = await this.#doRequest(INS_SIGN_TX, 0x00, 0x00, pkgCs[pkgCs.length-1]);
+        const { pkg, transfer } = serializeTransfer(transaction, walletVersion, walletId);
 
         //
-        // Parse response
+        // Send package
         //
 
-        let orderBuilder = beginCell()
-            .storeBit(0)
-            .storeBit(true)
-            .storeBit(transaction.bounce)
-            .storeBit(false)
-            .storeAddress(null)
-            .storeAddress(transaction.to)
-            .storeCoins(transaction.amount)
-            .storeBit(false)
-            .storeCoins(0)
-            .storeCoins(0)
-            .storeUint(0, 64)
-            .storeUint(0, 32)
-
-        // State Init
-        if (stateInit) {
-            orderBuilder = orderBuilder
-                .storeBit(true)
-                .storeBit(true) // Always in reference
-                .storeRef(stateInit)
-        } else {
-            orderBuilder = orderBuilder
-                .storeBit(false);
-        }
-
-        // Payload
-        if (payload) {
-            orderBuilder = orderBuilder
-                .storeBit(true) // Always in reference
-                .storeRef(payload)
-        } else {
-            orderBuilder = orderBuilder
-                .storeBit(false)
-        }
-
-        // Transfer message
-        let transfer = beginCell()
-            .storeUint(698983191, 32)
-            .storeUint(transaction.timeout, 32)
-            .storeUint(transaction.seqno, 32)
-            .storeUint(0, 8)
-            .storeUint(transaction.sendMode, 8)
-            .storeRef(orderBuilder.endCell())
-            .endCell();
+        let res = await this.#sendChunked(INS_SIGN_TX, pathElements, pkg, signal);
 
         // Parse result
         let signature = res.slice(1, 1 + 64);
@@ -496,49 +571,122 @@ export class TonTransport {
         if (!signVerify(hash, signature, publicKey)) {
             throw Error('Received signature is invalid');
         }
+        this.#emit({ type: 'signature-verified' });
 
         // Build a message
-        return beginCell()
-            .storeBuffer(signature)
-            .storeSlice(transfer.beginParse())
-            .endCell();
-    }
-
-    #doRequest = async (ins: number, p1: number, p2: number, data: Buffer) => {
-        return this.#lock.inLock(async () => {
-            let r = await this.transport.send(
-                LEDGER_CLA,
-                ins,
-                p1,
-                p2,
-                data
-            );
-            return r.slice(0, r.length - 2);
+        return packSignedTransfer(transfer, signature, walletVersion);
+    }
+
+    /**
+     * Signs a transfer and wraps it into an external message ready to be broadcasted
+     */
+    signExternalMessage = async (
+        path: TonPath,
+        transaction: {
+            seqno: number,
+            timeout: number,
+            messages: TonTransactionMessage[]
+        },
+        opts?: { chain?: number, testOnly?: boolean, walletVersion?: WalletVersion, subwalletId?: number, acknowledgeBlindSigning?: boolean, publicKey?: Buffer, signal?: AbortSignal, timeout?: number, priority?: TonOperationPriority, onProgress?: (event: TonProgressEvent) => void }
+    ): Promise<TonExternalMessage> => {
+        assertValid(validateTransaction(transaction, { chain: opts?.chain, walletVersion: opts?.walletVersion, subwalletId: opts?.subwalletId }));
+        return this.#operation('signExternalMessage', 'normal', opts, async (signal) => {
+            const pathElements = validatePath(path);
+            const publicKey = opts?.publicKey ?? await this.#getPublicKey(pathElements, signal);
+            const body = await this.#signMultiTransaction(pathElements, transaction, { ...opts, publicKey }, signal);
+            return createExternalMessage({ body, publicKey, seqno: transaction.seqno, chain: opts?.chain, testOnly: opts?.testOnly, walletVersion: opts?.walletVersion, subwalletId: opts?.subwalletId });
         });
     }
-}
 
-//
-// Utils
-//
+    /**
+     * Forgets all cached public keys
+     */
+    async clearPublicKeyCache() {
+        if (this.#publicKeys) {
+            await this.#publicKeys.store.clear();
+            this.#publicKeys.invalidateSession();
+        }
+    }
 
-function validatePath(path: number[]) {
-    if (path.length < 6) {
-        throw Error('Path is too short');
+    #getPublicKey = async (path: number[], signal?: AbortSignal) => {
+        const fetch = async (p: number[]) => {
+            // Cache also fetches the key of its fingerprint path, which is not the requested key
+            if (formatPath(p) === formatPath(path)) {
+                this.#emit({ type: 'key-fetch', path: formatPath(p) });
+            }
+            return (await this.#getAddress(p, undefined, signal)).publicKey;
+        };
+        return this.#publicKeys ? this.#publicKeys.get(path, fetch) : fetch(path);
     }
-    if (path[0] !== 44) {
-        throw Error('First element of a path must be 44');
+
+    // Sends the request that shows a prompt on the device
+    #confirmed = async (send: () => Promise<Buffer>) => {
+        this.#emit({ type: 'awaiting-confirmation' });
+        try {
+            const res = await send();
+            this.#emit({ type: 'confirmed' });
+            return res;
+        } catch (e) {
+            if (e instanceof UserRejectedError) {
+                this.#emit({ type: 'rejected' });
+            }
+            throw e;
+        }
     }
-    if (path[1] !== 607) {
-        throw Error('Second element of a path must be 607');
+
+    #sendChunked = async (ins: number, pathElements: number[], pkg: Buffer, signal?: AbortSignal) => {
+        const request = ins === INS_SIGN_TX ? 'sign-transaction' : 'sign-data';
+        await this.#doRequest(ins, 0x00, 0x03, pathElementsToBuffer(pathElements.map((v) => v + 0x80000000)), signal);
+        const pkgCs = chunks(pkg, 255);
+        for (let i = 0; i < pkgCs.length - 1; i++) {
+            await this.#doRequest(ins, 0x00, 0x02, pkgCs[i], signal, i);
+            this.#emit({ type: 'chunk-sent', request, chunk: i + 1, chunks: pkgCs.length });
+        }
+        this.#emit({ type: 'chunk-sent', request, chunk: pkgCs.length, chunks: pkgCs.length });
+        return this.#confirmed(() => this.#doRequest(ins, 0x00, 0x00, pkgCs[pkgCs.length - 1], signal, pkgCs.length - 1));
     }
-    for (let p of path) {
-        if (p >= 0x80000000) {
-            throw Error('All path elements must be under 0x80000000');
+
+    #doRequest = async (ins: number, p1: number, p2: number, data: Buffer, signal?: AbortSignal, chunk?: number) => {
+        try {
+            return await this.#exchange({ cla: LEDGER_CLA, ins, p1, p2, chunk }, data, signal);
+        } catch (e) {
+            // App could be reopened with another version
+            if (e instanceof WrongAppError) {
+                this.#capabilities = null;
+            }
+            // Another device or seed could be used after unlocking or reopening the app
+            if (e instanceof WrongAppError || e instanceof DeviceLockedError) {
+                this.#publicKeys?.invalidateSession();
+            }
+            throw e;
         }
     }
+
+    // Called only from a running operation, so APDUs of different operations never interleave
+    #exchange = async (context: ApduContext, data: Buffer | undefined, signal?: AbortSignal) => {
+        throwIfAborted(signal);
+
+        // Device answers a cancelled request only after the user acts on it
+        await abortable(this.#abandoned, signal);
+
+        const exchange = withStatusErrors(context, () => this.transport.send(
+            context.cla,
+            context.ins,
+            context.p1,
+            context.p2,
+            data,
+            [0x9000]
+        ));
+        this.#abandoned = exchange.catch(() => { /* Reported to the cancelled caller */ });
+        let r = await abortable(exchange, signal);
+        return r.slice(0, r.length - 2);
+    }
 }
 
+//
+// Utils
+//
+
 function pathElementsToBuffer(paths: number[]): Buffer {
     const buffer = Buffer.alloc(1 + paths.length * 4);
     buffer[0] = paths.length;
@@ -0,0 +1,142 @@
+import { Address, beginCell, Cell, contractAddress, loadMessage, toNano } from '@ton/core';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli } from './cli';
+import { TonEmulatorTransport } from './TonEmulatorTransport';
+import { TonTransport } from './TonTransport';
+import { getInit } from './utils/getInit';
+import { verifyTonProof } from './utils/tonProof';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon art'.split(' ');
+const PATH = [44, 607, 0, 0, 0, 0];
+const DESTINATION = Address.parse('EQBNVUFfKt2QgqKL5vZvnyP50wmniCFP2ASOKAE-g2noRDlR');
+
+describe('cli', () => {
+    let emulator: TonEmulatorTransport;
+    let dir: string;
+    let stdout: (string | Buffer)[];
+    let stderr: string[];
+    const run = (...argv: string[]) => runCli(argv, {
+        transport: async () => emulator,
+        stdout: (d) => stdout.push(d),
+        stderr: (d) => stderr.push(d),
+        now: () => 1700000000
+    });
+    const output = () => stdout.map((d) => d.toString()).join('');
+    beforeEach(async () => {
+        emulator = await TonEmulatorTransport.fromMnemonic(MNEMONIC);
+        dir = mkdtempSync(join(tmpdir(), 'ton-ledger-'));
+        stdout = [];
+        stderr = [];
+    });
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should show version and info', async () => {
+        expect(await run('version')).toBe(0);
+        expect(output()).toBe('2.2.0\n');
+
+        stdout = [];
+        expect(await run('info')).toBe(0);
+        expect(JSON.parse(output())).toMatchObject({ open: true, version: '2.2.0', walletVersions: ['v4'], multipleMessages: false });
+    });
+
+    it('should show address', async () => {
+        const { publicKey } = await emulator.getKeyPair([44, 607, 1, 0, 3, 0]);
+        expect(await run('address', '--testnet', '--account', '3', '--validate')).toBe(0);
+        expect(JSON.parse(output())).toEqual({
+            address: contractAddress(0, getInit(0, publicKey)).toString({ testOnly: true, bounceable: true }),
+            publicKey: publicKey.toString('hex')
+        });
+
+        stdout = [];
+        expect(await run('address', '--path', 'm/44\'/607\'/0\'/255\'/0\'/0\'', '--chain=-1', '--wallet', 'v5r1', '--no-bounceable')).toBe(0);
+        expect(JSON.parse(output()).address).toMatchSnapshot();
+
+        // Same form as TonTransport.getAddress by default
+        stdout = [];
+        expect(await run('address')).toBe(0);
+        expect(JSON.parse(output()).address).toBe((await new TonTransport(emulator).getAddress(PATH)).address);
+    });
+
+    it('should sign transaction from JSON', async () => {
+        const file = join(dir, 'tx.json');
+        writeFileSync(file, JSON.stringify({
+            seqno: 0,
+            timeout: 1700000060,
+            messages: [{
+                to: DESTINATION.toString(),
+                amount: toNano('0.1').toString(),
+                payload: {
+                    type: 'jetton-transfer',
+                    amount: '1000',
+                    destination: DESTINATION.toString(),
+                    responseDestination: DESTINATION.toString(),
+                    forwardAmount: '1',
+                    forwardPayload: beginCell().storeUint(0, 32).storeStringTail('Hello').endCell().toBoc().toString('base64')
+                }
+            }]
+        }));
+        expect(await run('sign-tx', file, '--format', 'json')).toBe(0);
+        const res = JSON.parse(output());
+        const message = loadMessage(Cell.fromBase64(res.boc).beginParse());
+        const { publicKey } = await emulator.getKeyPair(PATH);
+        expect(res.address).toBe(contractAddress(0, getInit(0, publicKey)).toString());
+        expect(message.init).toBeTruthy();
+        expect(Cell.fromBase64(res.boc).hash().toString('hex')).toBe(res.hash);
+
+        // V5 transfers are sent in experimental layouts only on request
+        stderr = [];
+        expect(await run('sign-tx', file, '--wallet', 'v5r1')).toBe(1);
+        expect(stderr.join('')).toBe('Error: Wallet version \'v5r1\' is not supported by the installed TON app, please update it\n');
+        stdout = [];
+        expect(await run('sign-tx', file, '--wallet', 'v5r1', '--experimental-layouts', '--format', 'json')).toBe(0);
+        expect(JSON.parse(output()).address).toBe(contractAddress(0, getInit(0, publicKey, 'v5r1')).toString());
+    });
+
+    it('should report errors', async () => {
+        const file = join(dir, 'tx.json');
+        writeFileSync(file, JSON.stringify({ seqno: 1, to: DESTINATION.toString(), amount: '1', payload: { type: 'comment', text: 'Ünicode' } }));
+        expect(await run('sign-tx', file)).toBe(1);
+        expect(stderr.join('')).toBe('Error: messages[0].payload.text: Must contain only printable ASCII characters\n');
+
+        stderr = [];
+        expect(await run('sign-tx', file, '--unknown')).toBe(1);
+        expect(stderr.join('')).toContain('Unknown option \'--unknown\'');
+
+        stderr = [];
+        expect(await run('transfer')).toBe(1);
+        expect(stderr.join('')).toContain('Unknown command \'transfer\'');
+    });
+
+    it('should sign data and proof', async () => {
+        emulator.openApp('TON', '2.3.0');
+        expect(await run('sign-data', 'Hello', '--domain', 'ton.org')).toBe(0);
+        const data = JSON.parse(output());
+        expect(data.timestamp).toBe(1700000000);
+        expect(Buffer.from(data.signature, 'base64').length).toBe(64);
+
+        stdout = [];
+        expect(await run('proof', '--domain', 'ton.org', '--payload', 'nonce')).toBe(0);
+        expect(verifyTonProof(JSON.parse(output()), { allowedDomains: ['ton.org'], now: 1700000000 }).valid).toBe(true);
+    });
+
+    it('should record and replay sessions', async () => {
+        const session = join(dir, 'session.json');
+        expect(await run('address', '--record', session)).toBe(0);
+        const recorded = output();
+
+        stdout = [];
+        expect(await runCli(['address', '--transport', 'replay', '--session', session], { stdout: (d) => stdout.push(d) })).toBe(0);
+        expect(output()).toBe(recorded);
+        expect(JSON.parse(readFileSync(session, 'utf-8')).exchanges.length).toBeGreaterThan(0);
+    });
+
+    it('should keep exit code when closing transport fails', async () => {
+        jest.spyOn(emulator, 'close').mockRejectedValue(new Error('Device is gone'));
+        expect(await run('version')).toBe(0);
+        expect(output()).toBe('2.2.0\n');
+    });
+});
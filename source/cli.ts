@@ -0,0 +1,445 @@
+import Transport from '@ledgerhq/hw-transport';
+import { Address, Cell, loadStateInit } from '@ton/core';
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { TonEmulatorTransport } from './TonEmulatorTransport';
+import { TonRecordingTransport } from './TonRecordingTransport';
+import { TonReplayTransport } from './TonReplayTransport';
+import { SignDataRequest, TonDNSRecord, TonPayloadFormat, TonTransactionMessage, TonTransport } from './TonTransport';
+import { WalletVersion } from './utils/getInit';
+import { parsePath, pathForAccount } from './utils/path';
+
+const USAGE = `Usage: ton-ledger <command> [options]
+
+Commands:
+  info                      Show the open app, its version, settings and capabilities
+  version                   Show the version of the TON app
+  address                   Show the wallet address and public key
+  sign-tx <file>            Sign a transfer described in a JSON file ('-' for stdin)
+  sign-data <text>          Sign a text, use --type binary to sign hex encoded bytes
+  proof                     Sign a TON Connect ton_proof
+
+Account:
+  --path <path>             Derivation path like m/44'/607'/0'/0'/0'/0'
+  --account <n>             Account number of a standard path (default 0)
+  --testnet                 Use testnet path and addresses
+  --chain <0|-1>            Workchain (default 0)
+  --wallet <v4|v5r1>        Wallet contract version (default v4)
+
+Options:
+  --validate                Show the address on the device for confirmation
+  --no-bounceable           Print the address in non-bounceable form (bounceable by default)
+  --format <base64|boc|json>  Output of sign-tx (default base64)
+  --acknowledge-blind-signing  Allow 'unsafe' payloads in sign-tx
+  --type <plaintext|text|binary>  Type of sign-data request (default text with --domain, plaintext otherwise)
+  --domain <domain>         Domain of sign-data and proof requests
+  --payload <text>          Payload of the proof
+  --timestamp <n>           Timestamp of sign-data and proof requests (default now)
+
+Transport:
+  --transport <hid|emulator|replay>  Transport to use (default hid)
+  --mnemonic <words>        Mnemonic of the emulator, TON_LEDGER_MNEMONIC by default
+  --session <file>          Recorded session for the replay transport
+  --record <file>           Record the APDU session to a file
+  --experimental-layouts    Enable V5 and multi-message requests, implemented by the emulator only
+`;
+
+const COMMANDS = ['info', 'version', 'address', 'sign-tx', 'sign-data', 'proof'];
+
+const OPTIONS = {
+    path: { type: 'string' },
+    account: { type: 'string' },
+    testnet: { type: 'boolean' },
+    chain: { type: 'string' },
+    wallet: { type: 'string' },
+    validate: { type: 'boolean' },
+    'no-bounceable': { type: 'boolean' },
+    format: { type: 'string' },
+    'acknowledge-blind-signing': { type: 'boolean' },
+    type: { type: 'string' },
+    domain: { type: 'string' },
+    payload: { type: 'string' },
+    timestamp: { type: 'string' },
+    transport: { type: 'string' },
+    mnemonic: { type: 'string' },
+    session: { type: 'string' },
+    record: { type: 'string' },
+    'experimental-layouts': { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' }
+} as const;
+
+type CliValues = ReturnType<typeof parseCliArgs>['values'];
+
+export type CliOptions = {
+    // Overrides transport selection with --transport
+    transport?: () => Promise<Transport>,
+    stdout?: (data: string | Buffer) => void,
+    stderr?: (data: string) => void,
+    now?: () => number
+};
+
+class CliError extends Error { }
+
+function parseCliArgs(argv: string[]) {
+    return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+}
+
+function integer(name: string, value: string | number | undefined, def?: number): number {
+    if (value === undefined) {
+        if (def === undefined) {
+            throw new CliError(`Missing ${name}`);
+        }
+        return def;
+    }
+    const n = typeof value === 'number' ? value : Number(value);
+    if (!Number.isSafeInteger(n)) {
+        throw new CliError(`${name} must be an integer`);
+    }
+    return n;
+}
+
+function walletVersionOf(value: string | undefined): WalletVersion {
+    if (value === undefined || value === 'v4' || value === 'v5r1') {
+        return value ?? 'v4';
+    }
+    throw new CliError(`Unknown wallet version '${value}'`);
+}
+
+function accountOf(values: CliValues) {
+    const testnet = values.testnet ?? false;
+    const chain = integer('--chain', values.chain, 0);
+    const path = values.path !== undefined
+        ? parsePath(values.path)
+        : pathForAccount(testnet, chain, integer('--account', values.account, 0));
+    return { path, testnet, chain, walletVersion: walletVersionOf(values.wallet) };
+}
+
+async function openTransport(values: CliValues): Promise<Transport> {
+    switch (values.transport ?? 'hid') {
+        case 'hid': {
+            let TransportNodeHid;
+            try {
+                TransportNodeHid = (await import('@ledgerhq/hw-transport-node-hid')).default;
+            } catch (e) {
+                throw new CliError('Install @ledgerhq/hw-transport-node-hid to use a USB device');
+            }
+            return TransportNodeHid.create();
+        }
+        case 'emulator': {
+            const mnemonic = values.mnemonic ?? process.env.TON_LEDGER_MNEMONIC;
+            if (!mnemonic) {
+                throw new CliError('Emulator needs --mnemonic or TON_LEDGER_MNEMONIC');
+            }
+            return TonEmulatorTransport.fromMnemonic(mnemonic.trim().split(/\s+/));
+        }
+        case 'replay': {
+            if (!values.session) {
+                throw new CliError('Replay transport needs --session');
+            }
+            return TonReplayTransport.fromJSON(readFileSync(values.session, 'utf-8'));
+        }
+        default:
+            throw new CliError(`Unknown transport '${values.transport}'`);
+    }
+}
+
+//
+// Transactions in JSON
+//
+
+function jsonAddress(name: string, value: unknown): Address {
+    if (typeof value !== 'string') {
+        throw new CliError(`${name} must be an address`);
+    }
+    try {
+        return Address.parse(value);
+    } catch (e) {
+        throw new CliError(`${name} is not a valid address`);
+    }
+}
+
+function jsonBigInt(name: string, value: unknown, def?: bigint): bigint {
+    if (value === undefined && def !== undefined) {
+        return def;
+    }
+    if ((typeof value !== 'string' || !/^\d+$/.test(value)) && !(typeof value === 'number' && Number.isSafeInteger(value))) {
+        throw new CliError(`${name} must be an integer in base units`);
+    }
+    return BigInt(value);
+}
+
+function jsonQueryId(name: string, value: unknown): bigint | null {
+    return value === undefined || value === null ? null : jsonBigInt(name, value);
+}
+
+function jsonCell(name: string, value: unknown): Cell | null {
+    if (value === undefined || value === null) {
+        return null;
+    }
+    if (typeof value !== 'string') {
+        throw new CliError(`${name} must be a base64 encoded BoC`);
+    }
+    try {
+        return Cell.fromBase64(value);
+    } catch (e) {
+        throw new CliError(`${name} is not a valid BoC`);
+    }
+}
+
+function jsonDNSRecord(name: string, r: any): TonDNSRecord {
+    switch (r?.type) {
+        case 'wallet':
+            return { type: 'wallet', value: r.value ? { address: jsonAddress(`${name}.value.address`, r.value.address), isWallet: r.value.isWallet === true } : null };
+        case 'site':
+            return { type: 'site', value: r.value ? { adnlAddress: Buffer.from(String(r.value.adnlAddress), 'hex') } : null };
+        case 'storage':
+            return { type: 'storage', value: r.value ? { bagId: Buffer.from(String(r.value.bagId), 'hex') } : null };
+        default:
+            throw new CliError(`${name}.type must be 'wallet', 'site' or 'storage'`);
+    }
+}
+
+function jsonPayload(name: string, p: any): TonPayloadFormat {
+    const f = (field: string) => `${name}.${field}`;
+    switch (p?.type) {
+        case 'comment':
+            return { type: 'comment', text: String(p.text ?? '') };
+        case 'jetton-transfer':
+            return {
+                type: 'jetton-transfer',
+                queryId: jsonQueryId(f('queryId'), p.queryId),
+                amount: jsonBigInt(f('amount'), p.amount),
+                destination: jsonAddress(f('destination'), p.destination),
+                responseDestination: jsonAddress(f('responseDestination'), p.responseDestination),
+                customPayload: jsonCell(f('customPayload'), p.customPayload),
+                forwardAmount: jsonBigInt(f('forwardAmount'), p.forwardAmount, 0n),
+                forwardPayload: jsonCell(f('forwardPayload'), p.forwardPayload)
+            };
+        case 'nft-transfer':
+            return {
+                type: 'nft-transfer',
+                queryId: jsonQueryId(f('queryId'), p.queryId),
+                newOwner: jsonAddress(f('newOwner'), p.newOwner),
+                responseDestination: jsonAddress(f('responseDestination'), p.responseDestination),
+                customPayload: jsonCell(f('customPayload'), p.customPayload),
+                forwardAmount: jsonBigInt(f('forwardAmount'), p.forwardAmount, 0n),
+                forwardPayload: jsonCell(f('forwardPayload'), p.forwardPayload)
+            };
+        case 'jetton-burn':
+            return {
+                type: 'jetton-burn',
+                queryId: jsonQueryId(f('queryId'), p.queryId),
+                amount: jsonBigInt(f('amount'), p.amount),
+                responseDestination: jsonAddress(f('responseDestination'), p.responseDestination),
+                customPayload: jsonCell(f('customPayload'), p.customPayload)
+            };
+        case 'change-dns-record':
+            return { type: 'change-dns-record', queryId: jsonQueryId(f('queryId'), p.queryId), record: jsonDNSRecord(f('record'), p.record) };
+        case 'nft-prove-ownership': {
+            const forwardPayload = jsonCell(f('forwardPayload'), p.forwardPayload);
+            if (!forwardPayload) {
+                throw new CliError(`${f('forwardPayload')} is required`);
+            }
+            return { type: 'nft-prove-ownership', queryId: jsonQueryId(f('queryId'), p.queryId), destination: jsonAddress(f('destination'), p.destination), forwardPayload, withContent: p.withContent === true };
+        }
+        case 'excesses':
+            return { type: 'excesses', queryId: jsonQueryId(f('queryId'), p.queryId) };
+        case 'single-nominator-withdraw':
+            return { type: 'single-nominator-withdraw', queryId: jsonQueryId(f('queryId'), p.queryId), amount: jsonBigInt(f('amount'), p.amount) };
+        case 'single-nominator-change-validator':
+            return { type: 'single-nominator-change-validator', queryId: jsonQueryId(f('queryId'), p.queryId), address: jsonAddress(f('address'), p.address) };
+        case 'tonstakers-deposit':
+            return { type: 'tonstakers-deposit', queryId: jsonQueryId(f('queryId'), p.queryId), appId: jsonQueryId(f('appId'), p.appId) };
+        case 'tonstakers-withdraw':
+            return {
+                type: 'tonstakers-withdraw',
+                queryId: jsonQueryId(f('queryId'), p.queryId),
+                amount: jsonBigInt(f('amount'), p.amount),
+                responseDestination: jsonAddress(f('responseDestination'), p.responseDestination),
+                waitTillRoundEnd: p.waitTillRoundEnd === true,
+                fillOrKill: p.fillOrKill === true
+            };
+        case 'unsafe': {
+            const message = jsonCell(f('message'), p.message);
+            if (!message) {
+                throw new CliError(`${f('message')} is required`);
+            }
+            return { type: 'unsafe', message };
+        }
+        default:
+            throw new CliError(`${f('type')} '${p?.type}' is not supported`);
+    }
+}
+
+function jsonMessage(name: string, m: any): TonTransactionMessage {
+    const stateInit = jsonCell(`${name}stateInit`, m.stateInit);
+    return {
+        to: jsonAddress(`${name}to`, m.to),
+        amount: jsonBigInt(`${name}amount`, m.amount),
+        bounce: m.bounce ?? true,
+        sendMode: m.sendMode ?? 3,
+        stateInit: stateInit ? loadStateInit(stateInit.beginParse()) : undefined,
+        payload: m.payload !== undefined && m.payload !== null ? jsonPayload(`${name}payload`, m.payload) : undefined
+    };
+}
+
+/**
+ * Parses a transfer described in JSON. Amounts are integer strings in base units
+ * (nanotons for TON), cells are base64 encoded BoCs.
+ */
+export function parseTransactionJson(json: string, now: number): { seqno: number, timeout: number, messages: TonTransactionMessage[] } {
+    let tx: any;
+    try {
+        tx = JSON.parse(json);
+    } catch (e) {
+        throw new CliError('Transaction is not a valid JSON');
+    }
+    const single = !Array.isArray(tx?.messages);
+    return {
+        seqno: integer('seqno', tx?.seqno),
+        timeout: integer('timeout', tx?.timeout, now + 60),
+        messages: single ? [jsonMessage('', tx)] : tx.messages.map((m: any, i: number) => jsonMessage(`messages[${i}].`, m))
+    };
+}
+
+//
+// Commands
+//
+
+async function runCommand(command: string, positionals: string[], values: CliValues, transport: TonTransport, now: number, out: (data: string | Buffer) => void) {
+    const json = (v: unknown) => out(JSON.stringify(v, null, 2) + '\n');
+    switch (command) {
+        case 'version': {
+            out(await transport.getVersion() + '\n');
+            return;
+        }
+        case 'info': {
+            const open = await transport.isAppOpen();
+            if (!open) {
+                json({ open });
+                return;
+            }
+            const capabilities = await transport.getCapabilities();
+            const { major, minor, patch } = capabilities.version;
+            json({ open, ...capabilities, version: `${major}.${minor}.${patch}` });
+            return;
+        }
+        case 'address': {
+            const { path, testnet, chain, walletVersion } = accountOf(values);
+            const opts = { testOnly: testnet, chain, walletVersion, bounceable: !values['no-bounceable'] };
+            const res = values.validate ? await transport.validateAddress(path, opts) : await transport.getAddress(path, opts);
+            json({ address: res.address, publicKey: res.publicKey.toString('hex') });
+            return;
+        }
+        case 'sign-tx': {
+            const file = positionals[0];
+            if (!file) {
+                throw new CliError('sign-tx needs a transaction file');
+            }
+            const tx = parseTransactionJson(readFileSync(file === '-' ? 0 : file, 'utf-8'), now);
+            const { path, testnet, chain, walletVersion } = accountOf(values);
+            const res = await transport.signExternalMessage(path, tx, { chain, testOnly: testnet, walletVersion, acknowledgeBlindSigning: values['acknowledge-blind-signing'] });
+            switch (values.format ?? 'base64') {
+                case 'base64':
+                    out(res.bocBase64 + '\n');
+                    return;
+                case 'boc':
+                    out(res.boc);
+                    return;
+                case 'json':
+                    json({ address: res.address.toString({ testOnly: testnet }), hash: res.hash.toString('hex'), boc: res.bocBase64 });
+                    return;
+                default:
+                    throw new CliError(`Unknown format '${values.format}'`);
+            }
+        }
+        case 'sign-data': {
+            const data = positionals[0];
+            if (data === undefined) {
+                throw new CliError('sign-data needs data to sign');
+            }
+            const type = values.type ?? (values.domain !== undefined ? 'text' : 'plaintext');
+            let req: SignDataRequest;
+            switch (type) {
+                case 'plaintext':
+                    req = { type: 'plaintext', text: data };
+                    break;
+                case 'text':
+                case 'binary':
+                    if (values.domain === undefined) {
+                        throw new CliError(`Request type '${type}' needs --domain`);
+                    }
+                    req = type === 'text' ? { type, text: data, domain: values.domain } : { type, bytes: Buffer.from(data, 'hex'), domain: values.domain };
+                    break;
+                default:
+                    throw new CliError(`Unknown request type '${type}'`);
+            }
+            const { path, testnet, chain, walletVersion } = accountOf(values);
+            const timestamp = integer('--timestamp', values.timestamp, now);
+            const res = await transport.signData(path, req, { timestamp, chain, testOnly: testnet, walletVersion });
+            json({ signature: res.signature.toString('base64'), timestamp: res.timestamp, cell: res.cell.toBoc().toString('base64') });
+            return;
+        }
+        case 'proof': {
+            if (values.domain === undefined || values.payload === undefined) {
+                throw new CliError('proof needs --domain and --payload');
+            }
+            const { path, testnet, chain, walletVersion } = accountOf(values);
+            const timestamp = integer('--timestamp', values.timestamp, now);
+            json(await transport.getTonProof(path, { domain: values.domain, timestamp, payload: values.payload }, { testOnly: testnet, chain, walletVersion }));
+            return;
+        }
+        default:
+            throw new CliError(`Unknown command '${command}'`);
+    }
+}
+
+/**
+ * Runs the `ton-ledger` command line tool, resolves with the exit code
+ */
+export async function runCli(argv: string[], opts?: CliOptions): Promise<number> {
+    const stdout = opts?.stdout ?? ((data: string | Buffer) => process.stdout.write(data));
+    const stderr = opts?.stderr ?? ((data: string) => process.stderr.write(data));
+
+    let parsed: ReturnType<typeof parseCliArgs>;
+    try {
+        parsed = parseCliArgs(argv);
+    } catch (e) {
+        stderr(`${(e as Error).message}\n\n${USAGE}`);
+        return 1;
+    }
+    const { values, positionals } = parsed;
+    const [command, ...rest] = positionals;
+    if (!command || command === 'help' || values.help) {
+        (command || values.help ? stdout : stderr)(USAGE);
+        return command || values.help ? 0 : 1;
+    }
+    if (!COMMANDS.includes(command)) {
+        stderr(`Unknown command '${command}'\n\n${USAGE}`);
+        return 1;
+    }
+
+    let transport: Transport | null = null;
+    let recorder: TonRecordingTransport | null = null;
+    try {
+        transport = opts?.transport ? await opts.transport() : await openTransport(values);
+        if (values.record) {
+            transport = recorder = new TonRecordingTransport(transport);
+        }
+        const now = opts?.now ? opts.now() : Math.floor(Date.now() / 1000);
+        await runCommand(command, rest, values, new TonTransport(transport, { experimentalLayouts: values['experimental-layouts'] }), now, stdout);
+        return 0;
+    } catch (e) {
+        stderr(`Error: ${(e as Error)?.message ?? e}\n${e instanceof CliError ? 'Run \'ton-ledger help\' for usage\n' : ''}`);
+        return 1;
+    } finally {
+        if (recorder && values.record) {
+            writeFileSync(values.record, JSON.stringify(recorder, null, 2));
+        }
+        try {
+            await transport?.close();
+        } catch (e) {
+            // Result of the command is already reported
+        }
+    }
+}
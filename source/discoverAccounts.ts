@@ -0,0 +1,63 @@
+import { Address } from '@ton/core';
+import { TonTransport } from './TonTransport';
+import { WalletVersion } from './utils/getInit';
+import { formatPath, pathForAccount } from './utils/path';
+
+export type DiscoveredAccount = {
+    account: number,
+    path: number[],
+    pathString: string,
+    publicKey: Buffer,
+    address: Address,
+    addresses: {
+        raw: string,
+        bounceable: string,
+        nonBounceable: string
+    }
+};
+
+/**
+ * Walks account indices until gapLimit consecutive accounts are unused and returns the used ones
+ */
+export async function discoverAccounts(transport: TonTransport, opts: {
+    isUsed: (account: DiscoveredAccount) => Promise<boolean> | boolean,
+    testnet?: boolean,
+    chain?: number,
+    walletVersion?: WalletVersion,
+    gapLimit?: number,
+    startAccount?: number
+}): Promise<DiscoveredAccount[]> {
+    const testnet = opts.testnet ?? false;
+    const chain = opts.chain ?? 0;
+    const gapLimit = opts.gapLimit ?? 20;
+    if (!Number.isInteger(gapLimit) || gapLimit < 1) {
+        throw Error('Gap limit must be a positive integer');
+    }
+
+    const found: DiscoveredAccount[] = [];
+    let gap = 0;
+    for (let account = opts.startAccount ?? 0; gap < gapLimit; account++) {
+        const path = pathForAccount(testnet, chain, account);
+        const res = await transport.getAddress(path, { chain, testOnly: testnet, walletVersion: opts.walletVersion });
+        const address = Address.parse(res.address);
+        const discovered: DiscoveredAccount = {
+            account,
+            path,
+            pathString: formatPath(path),
+            publicKey: res.publicKey,
+            address,
+            addresses: {
+                raw: address.toRawString(),
+                bounceable: address.toString({ bounceable: true, testOnly: testnet }),
+                nonBounceable: address.toString({ bounceable: false, testOnly: testnet })
+            }
+        };
+        if (await opts.isUsed(discovered)) {
+            found.push(discovered);
+            gap = 0;
+        } else {
+            gap++;
+        }
+    }
+    return found;
+}
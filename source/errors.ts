@@ -0,0 +1,128 @@
+export type ApduContext = {
+    cla: number,
+    ins: number,
+    p1: number,
+    p2: number,
+    chunk?: number
+};
+
+/**
+ * Error reported by the device for a single APDU exchange
+ */
+export class TonTransportError extends Error {
+    readonly statusCode: number;
+    readonly context: ApduContext;
+
+    constructor(message: string, statusCode: number, context: ApduContext) {
+        super(`${message} (0x${statusCode.toString(16)}, ins: 0x${context.ins.toString(16)}, p1: 0x${context.p1.toString(16)}, p2: 0x${context.p2.toString(16)}${context.chunk !== undefined ? ', chunk: ' + context.chunk : ''})`);
+        this.name = new.target.name;
+        this.statusCode = statusCode;
+        this.context = context;
+    }
+}
+
+export class UserRejectedError extends TonTransportError { }
+
+export class DeviceLockedError extends TonTransportError { }
+
+export class WrongAppError extends TonTransportError { }
+
+export class UnsupportedInstructionError extends TonTransportError { }
+
+export class BlindSigningDisabledError extends TonTransportError { }
+
+export class InvalidDataError extends TonTransportError { }
+
+export function errorFromStatusCode(statusCode: number, context: ApduContext): TonTransportError {
+    switch (statusCode) {
+        case 0x6985:
+            return new UserRejectedError('Request was rejected by the user', statusCode, context);
+        case 0x5515:
+        case 0x6982:
+            return new DeviceLockedError('Device is locked, unlock it and try again', statusCode, context);
+        case 0x6511:
+        case 0x6E00:
+        case 0x6E01:
+            return new WrongAppError('TON app is not open on the device', statusCode, context);
+        case 0x6D00:
+            return new UnsupportedInstructionError('Instruction is not supported by the installed TON app', statusCode, context);
+        case 0xBD00:
+            return new BlindSigningDisabledError('Blind signing is disabled in the TON app settings', statusCode, context);
+        case 0x6A80:
+        case 0x6A86:
+        case 0x6A87:
+        case 0xB000:
+        case 0xB001:
+        case 0xB002:
+        case 0xB003:
+        case 0xB004:
+        case 0xB005:
+        case 0xB006:
+        case 0xB007:
+        case 0xB008:
+        case 0xB00B:
+        case 0xB0BD:
+            return new InvalidDataError('Device rejected request data', statusCode, context);
+        default:
+            return new TonTransportError('Unexpected device status', statusCode, context);
+    }
+}
+
+/**
+ * Request needs a feature that the installed TON app doesn't support or has disabled
+ */
+export class UnsupportedFeatureError extends Error {
+    readonly feature: string;
+
+    constructor(message: string, feature: string) {
+        super(message);
+        this.name = 'UnsupportedFeatureError';
+        this.feature = feature;
+    }
+}
+
+/**
+ * Operation was cancelled by the caller, no more requests are sent for it
+ */
+export class CancelledError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Operation didn't complete in time
+ */
+export class TimeoutError extends CancelledError { }
+
+/**
+ * Replayed session received an exchange that is not in the recording
+ */
+export class ReplayDivergenceError extends Error {
+    readonly index: number;
+
+    constructor(message: string, index: number) {
+        super(message);
+        this.name = 'ReplayDivergenceError';
+        this.index = index;
+    }
+}
+
+export type ValidationIssue = {
+    field: string,
+    message: string
+};
+
+/**
+ * Request failed validation before it was sent to the device
+ */
+export class ValidationError extends Error {
+    readonly issues: ValidationIssue[];
+
+    constructor(issues: ValidationIssue[]) {
+        super(issues.map((i) => `${i.field}: ${i.message}`).join(', '));
+        this.name = 'ValidationError';
+        this.issues = issues;
+    }
+}
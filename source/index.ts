@@ -1 +1,21 @@
-export { TonPayloadFormat, TonTransport, SignDataRequest } from './TonTransport';
\ No newline at end of file
+export { TonPayloadFormat, TonDNSRecord, TonTransport, TonTransactionMessage, SignDataRequest, TonProgressEvent } from './TonTransport';
+export { WalletVersion } from './utils/getInit';
+export { parsePayload, ParsedPayload } from './utils/parsePayload';
+export { TonPath, TonAccountPath, pathForAccount, parsePath, formatPath, parseAccountPath, validatePath } from './utils/path';
+export { createExternalMessage, TonExternalMessage } from './utils/externalMessage';
+export { createTonProofReply, verifyTonProof, tonProofHash, TonConnectAccount, TonProofItemReply, TonProofVerification } from './utils/tonProof';
+export { verifySignData } from './utils/signData';
+export { validateTransaction, validateSignData } from './utils/validation';
+export { createSigningRequest, signingRequestToJSON, signingRequestFromJSON, signingRequestToBoc, signingRequestFromBoc, signSigningRequest, verifySigningResponse, finalizeSigningRequest, TonSigningRequest, TonSigningRequestJSON, TonSigningResponse, TonSigningResult } from './signingRequest';
+export { previewTransaction, previewSignData, TonPreviewScreen, TonPreviewField, TonPreviewWarning } from './utils/preview';
+export { CancellationOptions } from './utils/cancellation';
+export { TonOperation, TonOperationPriority } from './utils/operationQueue';
+export { PublicKeyStore, MemoryPublicKeyStore } from './utils/publicKeyCache';
+export { discoverAccounts, DiscoveredAccount } from './discoverAccounts';
+export { TonAppCapabilities, TonAppSettings, TonAppVersion } from './utils/capabilities';
+export { TonEmulatorTransport } from './TonEmulatorTransport';
+export { TonRecordingTransport, RecordedApdu, ApduSession } from './TonRecordingTransport';
+export { TonReplayTransport } from './TonReplayTransport';
+export { TonLedgerWallet, TonLedgerTransferArgs } from './TonLedgerWallet';
+export { TonConnectionManager, TonConnectionEvent } from './TonConnectionManager';
+export { TonTransportError, UserRejectedError, DeviceLockedError, WrongAppError, UnsupportedInstructionError, BlindSigningDisabledError, InvalidDataError, UnsupportedFeatureError, CancelledError, TimeoutError, ReplayDivergenceError, ValidationError, ValidationIssue, ApduContext } from './errors';
@@ -0,0 +1,165 @@
+import { Address, beginCell, contractAddress, toNano } from '@ton/core';
+import { createSigningRequest, finalizeSigningRequest, signingRequestFromBoc, signingRequestFromJSON, signingRequestToBoc, signingRequestToJSON, signSigningRequest, verifySigningResponse } from './signingRequest';
+import { TonEmulatorTransport } from './TonEmulatorTransport';
+import { TonPayloadFormat, TonTransactionMessage, TonTransport } from './TonTransport';
+import { getInit } from './utils/getInit';
+import { serializePayload } from './utils/serializePayload';
+import { verifySignData } from './utils/signData';
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon art'.split(' ');
+const PATH = [44, 607, 0, 0, 0, 0];
+const DESTINATION = Address.parse('EQBNVUFfKt2QgqKL5vZvnyP50wmniCFP2ASOKAE-g2noRDlR');
+
+const MESSAGES: TonTransactionMessage[] = [{
+    to: DESTINATION,
+    sendMode: 3,
+    bounce: false,
+    amount: toNano('1'),
+    stateInit: getInit(0, Buffer.alloc(32, 1)),
+    payload: { type: 'comment', text: 'Hello' }
+}, {
+    to: DESTINATION,
+    sendMode: 1,
+    bounce: true,
+    amount: toNano('0.1'),
+    payload: { type: 'jetton-transfer', queryId: 5n, amount: 1000n, destination: DESTINATION, responseDestination: DESTINATION, customPayload: null, forwardAmount: 1n, forwardPayload: null }
+}];
+
+describe('signingRequest', () => {
+    let emulator: TonEmulatorTransport;
+    let transport: TonTransport;
+    let publicKey: Buffer;
+    beforeEach(async () => {
+        emulator = await TonEmulatorTransport.fromMnemonic(MNEMONIC);
+        transport = new TonTransport(emulator, { experimentalLayouts: true });
+        publicKey = (await emulator.getKeyPair(PATH)).publicKey;
+    });
+
+    it('should sign transaction request offline', async () => {
+        for (const walletVersion of ['v4', 'v5r1'] as const) {
+            const req = createSigningRequest({ type: 'transaction', path: PATH, publicKey, walletVersion, transaction: { seqno: 3, timeout: 1700000000, messages: MESSAGES } });
+
+            // Offline side
+            const fromJSON = signingRequestFromJSON(JSON.stringify(signingRequestToJSON(req)));
+            const fromBoc = signingRequestFromBoc(signingRequestToBoc(req).toString('base64'));
+            expect(fromJSON.hash.equals(req.hash)).toBe(true);
+            expect(fromBoc.hash.equals(req.hash)).toBe(true);
+            const res = await signSigningRequest(transport, fromBoc);
+
+            // Online side
+            expect(verifySigningResponse(req, res)).toBe(true);
+            const result = finalizeSigningRequest(req, JSON.parse(JSON.stringify(res)));
+            if (result.type !== 'transaction') {
+                throw Error('Unexpected result');
+            }
+            const direct = await transport.signMultiTransaction(PATH, { seqno: 3, timeout: 1700000000, messages: MESSAGES }, { walletVersion });
+            expect(result.body.equals(direct)).toBe(true);
+            expect(result.external.address.equals(req.address)).toBe(true);
+        }
+    });
+
+    it('should sign data request offline', async () => {
+        emulator.openApp('TON', '2.3.0');
+        const request = { type: 'binary' as const, bytes: Buffer.from('0102030405', 'hex'), domain: 'ton.org' };
+        const req = createSigningRequest({ type: 'sign-data', path: PATH, publicKey, request, timestamp: 1700000000 });
+        expect(signingRequestToBoc(req).toString('base64')).toMatchSnapshot();
+
+        const res = await signSigningRequest(transport, signingRequestFromBoc(signingRequestToBoc(req)));
+        const result = finalizeSigningRequest(req, res);
+        if (result.type !== 'sign-data') {
+            throw Error('Unexpected result');
+        }
+        expect(verifySignData({ publicKey, request, signature: result.signature, cell: result.cell, timestamp: 1700000000, address: req.address })).toBe(true);
+    });
+
+    it('should reject modified requests and responses', async () => {
+        const req = createSigningRequest({ type: 'transaction', path: PATH, publicKey, transaction: { seqno: 3, timeout: 1700000000, messages: MESSAGES } });
+        const json = signingRequestToJSON(req);
+        json.transaction!.messages[0].amount = toNano('100').toString();
+        expect(() => signingRequestFromJSON(json)).toThrow('Signing request hash doesn\'t match its content');
+
+        const res = await signSigningRequest(transport, req);
+        expect(verifySigningResponse(req, { ...res, signature: '00'.repeat(64) })).toBe(false);
+        expect(() => finalizeSigningRequest(req, { ...res, hash: '00'.repeat(32) })).toThrow('Signature doesn\'t match the signing request');
+    });
+
+    it('should reject envelopes with another address', () => {
+        const req = createSigningRequest({ type: 'sign-data', path: PATH, publicKey, request: { type: 'plaintext', text: 'Hello' }, timestamp: 1700000000 });
+        const other = { ...req, address: DESTINATION };
+        expect(() => signingRequestFromBoc(signingRequestToBoc(other))).toThrow('Signing request address doesn\'t match its public key');
+        expect(() => signingRequestFromJSON(signingRequestToJSON(other))).toThrow('Signing request address doesn\'t match its public key');
+    });
+
+    it('should sign requests for testnet subwallets', async () => {
+        emulator.openApp('TON', '2.2.0');
+        for (const walletVersion of ['v4', 'v5r1'] as const) {
+            const req = createSigningRequest({ type: 'transaction', path: PATH, publicKey, testOnly: true, walletVersion, subwalletId: 5, transaction: { seqno: 3, timeout: 1700000000, messages: MESSAGES.slice(0, 1) } });
+            expect(req.address.equals(contractAddress(0, getInit(0, publicKey, walletVersion, 5, true)))).toBe(true);
+            const fromJSON = signingRequestFromJSON(JSON.stringify(signingRequestToJSON(req)));
+            const fromBoc = signingRequestFromBoc(signingRequestToBoc(req));
+            expect(fromJSON.subwalletId).toBe(5);
+            expect(fromBoc.subwalletId).toBe(5);
+            expect(fromJSON.testOnly && fromBoc.testOnly).toBe(true);
+
+            const result = finalizeSigningRequest(req, await signSigningRequest(transport, fromBoc));
+            if (result.type !== 'transaction') {
+                throw Error('Unexpected result');
+            }
+            const direct = await transport.signMultiTransaction(PATH, { seqno: 3, timeout: 1700000000, messages: MESSAGES.slice(0, 1) }, { testOnly: true, walletVersion, subwalletId: 5 });
+            expect(result.body.equals(direct)).toBe(true);
+            expect(result.external.address.equals(req.address)).toBe(true);
+        }
+    });
+
+    it('should reject requests for another key', async () => {
+        const other = (await emulator.getKeyPair([44, 607, 0, 0, 1, 0])).publicKey;
+        const req = createSigningRequest({ type: 'sign-data', path: PATH, publicKey: other, request: { type: 'plaintext', text: 'Hello' }, timestamp: 1700000000 });
+        const exchange = jest.spyOn(emulator, 'exchange');
+        await expect(signSigningRequest(transport, req)).rejects.toThrow('Device key doesn\'t match the signing request');
+        expect(exchange.mock.calls.filter(([apdu]) => apdu[1] === 0x09)).toHaveLength(0);
+    });
+
+    it('should keep unsafe payloads', () => {
+        const message = beginCell().storeUint(0xdeadbeef, 32).endCell();
+        const req = createSigningRequest({
+            type: 'transaction',
+            path: PATH,
+            publicKey,
+            transaction: { seqno: 1, timeout: 1700000000, messages: [{ to: DESTINATION, sendMode: 3, bounce: true, amount: 1n, payload: { type: 'unsafe', message } }] }
+        });
+        const decoded = signingRequestFromJSON(signingRequestToJSON(req));
+        const payload = decoded.type === 'transaction' ? decoded.transaction.messages[0].payload : undefined;
+        expect(payload?.type).toBe('unsafe');
+        expect(payload?.type === 'unsafe' && payload.message.equals(message)).toBe(true);
+    });
+
+    it('should keep payload types', () => {
+        const payloads: TonPayloadFormat[] = [
+            { type: 'comment', text: 'Hello' },
+            { type: 'jetton-transfer', queryId: 5n, amount: 1000n, destination: DESTINATION, responseDestination: DESTINATION, customPayload: null, forwardAmount: 1n, forwardPayload: null },
+            { type: 'nft-transfer', queryId: 1n, newOwner: DESTINATION, responseDestination: DESTINATION, customPayload: null, forwardAmount: 0n, forwardPayload: null },
+            { type: 'jetton-burn', queryId: 1n, amount: 100n, responseDestination: DESTINATION, customPayload: beginCell().storeUint(1, 2).endCell() },
+            { type: 'change-dns-record', queryId: 0n, record: { type: 'wallet', value: { address: DESTINATION, isWallet: false } } },
+            { type: 'nft-prove-ownership', queryId: 2n, destination: DESTINATION, forwardPayload: beginCell().endCell(), withContent: false },
+            { type: 'excesses', queryId: 3n },
+            { type: 'single-nominator-withdraw', queryId: 0n, amount: 10n },
+            { type: 'single-nominator-change-validator', queryId: 0n, address: DESTINATION },
+            { type: 'tonstakers-deposit', queryId: 0n, appId: 7n },
+            { type: 'tonstakers-withdraw', queryId: 0n, amount: 100n, responseDestination: DESTINATION, waitTillRoundEnd: false, fillOrKill: true }
+        ];
+        const req = createSigningRequest({
+            type: 'transaction',
+            path: PATH,
+            publicKey,
+            walletVersion: 'v5r1',
+            transaction: { seqno: 1, timeout: 1700000000, messages: payloads.map((payload) => ({ to: DESTINATION, sendMode: 3, bounce: true, amount: 1n, payload })) }
+        });
+        for (const decoded of [signingRequestFromJSON(signingRequestToJSON(req)), signingRequestFromBoc(signingRequestToBoc(req))]) {
+            const messages = decoded.type === 'transaction' ? decoded.transaction.messages : [];
+            expect(messages.map((m) => m.payload?.type)).toEqual(payloads.map((p) => p.type));
+            for (let i = 0; i < payloads.length; i++) {
+                expect(serializePayload(messages[i].payload!).cell.equals(serializePayload(payloads[i]).cell)).toBe(true);
+            }
+        }
+    });
+});
@@ -0,0 +1,553 @@
+import { Address, beginCell, Cell, contractAddress, loadStateInit, StateInit, storeStateInit } from '@ton/core';
+import { signVerify } from '@ton/crypto';
+import { SignDataRequest, TonPayloadFormat, TonTransactionMessage, TonTransport } from './TonTransport';
+import { CancellationOptions } from './utils/cancellation';
+import { createExternalMessage, TonExternalMessage } from './utils/externalMessage';
+import { getInit, getWalletId, WalletVersion } from './utils/getInit';
+import { parsePayload } from './utils/parsePayload';
+import { formatPath, parsePath, TonPath, validatePath } from './utils/path';
+import { packSignedTransfer, serializeTransfer } from './utils/serializeTransfer';
+import { serializePayload } from './utils/serializePayload';
+import { bytesCell, serializeSignData } from './utils/signData';
+import { assertValid, validateSignData, validateTransaction } from './utils/validation';
+
+const SIGNING_REQUEST_VERSION = 1;
+const SIGNING_REQUEST_PREFIX = 0x544c5352; // 'TLSR'
+
+type TonSigningRequestBase = {
+    version: 1,
+    path: number[],
+    publicKey: Buffer,
+    chain: number,
+    testOnly: boolean,
+    walletVersion: WalletVersion,
+    subwalletId?: number,
+    address: Address,
+    // Hash that the device reports for the request
+    hash: Buffer
+};
+
+/**
+ * Request prepared on one machine and signed with a device on another one
+ */
+export type TonSigningRequest =
+    | TonSigningRequestBase & { type: 'transaction', transaction: { seqno: number, timeout: number, messages: TonTransactionMessage[] } }
+    | TonSigningRequestBase & { type: 'sign-data', request: SignDataRequest, timestamp: number };
+
+export type TonSigningRequestJSON = {
+    version: number,
+    type: 'transaction' | 'sign-data',
+    path: string,
+    publicKey: string,
+    chain: number,
+    testOnly?: boolean,
+    walletVersion: WalletVersion,
+    subwalletId?: number,
+    address: string,
+    hash: string,
+    transaction?: {
+        seqno: number,
+        timeout: number,
+        messages: { to: string, amount: string, bounce: boolean, sendMode: number, stateInit?: string, payload?: string, payloadType?: TonPayloadFormat['type'] }[]
+    },
+    signData?: {
+        timestamp: number,
+        request: Record<string, string | undefined> & { type: SignDataRequest['type'] }
+    }
+};
+
+/**
+ * Signature returned from the signing machine
+ */
+export type TonSigningResponse = {
+    version: number,
+    hash: string,
+    signature: string
+};
+
+export type TonSigningResult =
+    | { type: 'transaction', signature: Buffer, body: Cell, external: TonExternalMessage }
+    | { type: 'sign-data', signature: Buffer, cell: Cell, timestamp: number };
+
+//
+// Build
+//
+
+export function createSigningRequest(args:
+    & { path: TonPath, publicKey: Buffer, chain?: number, testOnly?: boolean, walletVersion?: WalletVersion, subwalletId?: number }
+    & (
+        | { type: 'transaction', transaction: { seqno: number, timeout: number, messages: TonTransactionMessage[] } }
+        | { type: 'sign-data', request: SignDataRequest, timestamp?: number }
+    )
+): TonSigningRequest {
+    const path = validatePath(args.path);
+    const chain = args.chain ?? 0;
+    const testOnly = args.testOnly ?? false;
+    const walletVersion = args.walletVersion ?? 'v4';
+    if (args.publicKey.length !== 32) {
+        throw Error('Public key must be 32 bytes long');
+    }
+    const subwalletId = args.subwalletId;
+    const address = contractAddress(chain, getInit(chain, args.publicKey, walletVersion, subwalletId, testOnly));
+    const base = { version: SIGNING_REQUEST_VERSION, path, publicKey: args.publicKey, chain, testOnly, walletVersion, subwalletId, address } as const;
+
+    if (args.type === 'transaction') {
+        assertValid(validateTransaction(args.transaction, { chain, walletVersion, subwalletId }));
+        const { transfer } = serializeTransfer(args.transaction, walletVersion, getWalletId(chain, walletVersion, subwalletId, testOnly));
+        return { ...base, type: 'transaction', transaction: args.transaction, hash: transfer.hash() };
+    }
+
+    const timestamp = args.timestamp ?? Math.floor(Date.now() / 1000);
+    assertValid(validateSignData(args.request, { timestamp }));
+    const { hash } = serializeSignData(args.request, timestamp, address);
+    return { ...base, type: 'sign-data', request: args.request, timestamp, hash };
+}
+
+// Decoded requests are rebuilt from their content, so a modified envelope is never signed
+function checkDecoded(decoded: TonSigningRequest, hash: Buffer, address: Address) {
+    if (!decoded.hash.equals(hash)) {
+        throw Error('Signing request hash doesn\'t match its content');
+    }
+    if (!decoded.address.equals(address)) {
+        throw Error('Signing request address doesn\'t match its public key');
+    }
+    return decoded;
+}
+
+//
+// JSON
+//
+
+// Type is carried along with the cell, since some formats share their cells
+function payloadOf(cell: Cell, type: TonPayloadFormat['type']): TonPayloadFormat {
+    if (type === 'unsafe') {
+        return { type: 'unsafe', message: cell };
+    }
+    const parsed = parsePayload(cell, { type });
+    if (!parsed.payload) {
+        throw Error(`Payload can't be decoded: ${parsed.reason}`);
+    }
+    return parsed.payload;
+}
+
+// Payloads are kept as the cells sent in the message and parsed back
+function payloadCellOf(payload: NonNullable<TonTransactionMessage['payload']>): Cell {
+    return serializePayload(payload).cell;
+}
+
+function stateInitToBoc(init: StateInit) {
+    return beginCell().store(storeStateInit(init)).endCell();
+}
+
+export function signingRequestToJSON(req: TonSigningRequest): TonSigningRequestJSON {
+    const base = {
+        version: req.version,
+        type: req.type,
+        path: formatPath(req.path),
+        publicKey: req.publicKey.toString('hex'),
+        chain: req.chain,
+        testOnly: req.testOnly ? true : undefined,
+        walletVersion: req.walletVersion,
+        subwalletId: req.subwalletId,
+        address: req.address.toRawString(),
+        hash: req.hash.toString('hex')
+    };
+    if (req.type === 'transaction') {
+        return {
+            ...base,
+            transaction: {
+                seqno: req.transaction.seqno,
+                timeout: req.transaction.timeout,
+                messages: req.transaction.messages.map((m) => ({
+                    to: m.to.toRawString(),
+                    amount: m.amount.toString(),
+                    bounce: m.bounce,
+                    sendMode: m.sendMode,
+                    stateInit: m.stateInit ? stateInitToBoc(m.stateInit).toBoc().toString('base64') : undefined,
+                    payload: m.payload ? payloadCellOf(m.payload).toBoc().toString('base64') : undefined,
+                    payloadType: m.payload?.type
+                }))
+            }
+        };
+    }
+    const r = req.request;
+    let request: NonNullable<TonSigningRequestJSON['signData']>['request'];
+    switch (r.type) {
+        case 'plaintext':
+            request = { type: r.type, text: r.text };
+            break;
+        case 'app-data':
+            request = { type: r.type, address: r.address?.toRawString(), domain: r.domain, data: r.data.toBoc().toString('base64'), ext: r.ext?.toBoc().toString('base64') };
+            break;
+        case 'text':
+            request = { type: r.type, text: r.text, domain: r.domain };
+            break;
+        case 'binary':
+            request = { type: r.type, bytes: r.bytes.toString('base64'), domain: r.domain };
+            break;
+        case 'cell':
+            request = { type: r.type, schema: r.schema, cell: r.cell.toBoc().toString('base64'), domain: r.domain };
+            break;
+    }
+    return { ...base, signData: { timestamp: req.timestamp, request } };
+}
+
+function signDataFromJSON(r: Record<string, string | undefined>): SignDataRequest {
+    const str = (name: string) => {
+        const v = r[name];
+        if (typeof v !== 'string') {
+            throw Error(`Sign data request field '${name}' is missing`);
+        }
+        return v;
+    };
+    switch (r.type) {
+        case 'plaintext':
+            return { type: 'plaintext', text: str('text') };
+        case 'app-data':
+            return {
+                type: 'app-data',
+                address: r.address !== undefined ? Address.parse(r.address) : undefined,
+                domain: r.domain,
+                data: Cell.fromBase64(str('data')),
+                ext: r.ext !== undefined ? Cell.fromBase64(r.ext) : undefined
+            };
+        case 'text':
+            return { type: 'text', text: str('text'), domain: str('domain') };
+        case 'binary':
+            return { type: 'binary', bytes: Buffer.from(str('bytes'), 'base64'), domain: str('domain') };
+        case 'cell':
+            return { type: 'cell', schema: str('schema'), cell: Cell.fromBase64(str('cell')), domain: str('domain') };
+        default:
+            throw Error(`Sign data request type '${r.type}' not supported`);
+    }
+}
+
+export function signingRequestFromJSON(src: string | TonSigningRequestJSON): TonSigningRequest {
+    const json: TonSigningRequestJSON = typeof src === 'string' ? JSON.parse(src) : src;
+    if (json.version !== SIGNING_REQUEST_VERSION) {
+        throw Error(`Signing request version ${json.version} is not supported`);
+    }
+    const common = {
+        path: parsePath(json.path),
+        publicKey: Buffer.from(json.publicKey, 'hex'),
+        chain: json.chain,
+        testOnly: json.testOnly,
+        walletVersion: json.walletVersion,
+        subwalletId: json.subwalletId
+    };
+    let decoded: TonSigningRequest;
+    if (json.type === 'transaction' && json.transaction) {
+        decoded = createSigningRequest({
+            ...common,
+            type: 'transaction',
+            transaction: {
+                seqno: json.transaction.seqno,
+                timeout: json.transaction.timeout,
+                messages: json.transaction.messages.map((m) => ({
+                    to: Address.parse(m.to),
+                    amount: BigInt(m.amount),
+                    bounce: m.bounce,
+                    sendMode: m.sendMode,
+                    stateInit: m.stateInit !== undefined ? loadStateInit(Cell.fromBase64(m.stateInit).beginParse()) : undefined,
+                    payload: m.payload !== undefined ? payloadOf(Cell.fromBase64(m.payload), m.payloadType ?? 'unsafe') : undefined
+                }))
+            }
+        });
+    } else if (json.type === 'sign-data' && json.signData) {
+        decoded = createSigningRequest({ ...common, type: 'sign-data', request: signDataFromJSON(json.signData.request), timestamp: json.signData.timestamp });
+    } else {
+        throw Error('Signing request is malformed');
+    }
+    return checkDecoded(decoded, Buffer.from(json.hash, 'hex'), Address.parseRaw(json.address));
+}
+
+//
+// BoC
+//
+
+// Wallet version in the envelope: 0 for V4 and 1 for V5R1. It is a format of signing requests,
+// not the wallet type of device requests (walletVersionCode of serializeTransfer).
+function envelopeWalletVersion(walletVersion: WalletVersion) {
+    switch (walletVersion) {
+        case 'v4': return 0;
+        case 'v5r1': return 1;
+    }
+}
+
+function walletVersionOfEnvelope(code: number): WalletVersion {
+    switch (code) {
+        case 0: return 'v4';
+        case 1: return 'v5r1';
+        default: throw Error(`Unknown wallet version code ${code}`);
+    }
+}
+
+function loadBytes(cell: Cell): Buffer {
+    const parts: Buffer[] = [];
+    let s = cell.beginParse();
+    for (;;) {
+        parts.push(s.loadBuffer(s.remainingBits / 8));
+        if (s.remainingRefs === 0) {
+            return Buffer.concat(parts);
+        }
+        s = s.loadRef().beginParse();
+    }
+}
+
+const PAYLOAD_TYPES: TonPayloadFormat['type'][] = [
+    'comment',
+    'jetton-transfer',
+    'nft-transfer',
+    'jetton-burn',
+    'change-dns-record',
+    'nft-prove-ownership',
+    'excesses',
+    'single-nominator-withdraw',
+    'single-nominator-change-validator',
+    'tonstakers-deposit',
+    'tonstakers-withdraw',
+    'unsafe'
+];
+
+function messagesCell(messages: TonTransactionMessage[]): Cell | null {
+    let next: Cell | null = null;
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const m = messages[i];
+        const b = beginCell()
+            .storeAddress(m.to)
+            .storeCoins(m.amount)
+            .storeBit(m.bounce)
+            .storeUint(m.sendMode, 8)
+            .storeMaybeRef(m.stateInit ? stateInitToBoc(m.stateInit) : null)
+            .storeMaybeRef(m.payload ? payloadCellOf(m.payload) : null);
+        if (m.payload) {
+            b.storeUint(PAYLOAD_TYPES.indexOf(m.payload.type), 8);
+        }
+        next = b.storeMaybeRef(next).endCell();
+    }
+    return next;
+}
+
+function loadMessages(cell: Cell | null): TonTransactionMessage[] {
+    const res: TonTransactionMessage[] = [];
+    while (cell) {
+        const s = cell.beginParse();
+        const to = s.loadAddress();
+        const amount = s.loadCoins();
+        const bounce = s.loadBit();
+        const sendMode = s.loadUint(8);
+        const stateInit = s.loadMaybeRef();
+        const payload = s.loadMaybeRef();
+        const payloadType = payload ? PAYLOAD_TYPES[s.loadUint(8)] : undefined;
+        if (payload && !payloadType) {
+            throw Error('Unknown payload type');
+        }
+        res.push({
+            to,
+            amount,
+            bounce,
+            sendMode,
+            stateInit: stateInit ? loadStateInit(stateInit.beginParse()) : undefined,
+            payload: payload ? payloadOf(payload, payloadType!) : undefined
+        });
+        cell = s.loadMaybeRef();
+    }
+    return res;
+}
+
+const SIGN_DATA_TYPES: SignDataRequest['type'][] = ['plaintext', 'app-data', 'text', 'binary', 'cell'];
+
+function signDataCell(r: SignDataRequest): Cell {
+    const b = beginCell().storeUint(SIGN_DATA_TYPES.indexOf(r.type), 8);
+    switch (r.type) {
+        case 'plaintext':
+            return b.storeStringRefTail(r.text).endCell();
+        case 'app-data':
+            return b
+                .storeAddress(r.address ?? null)
+                .storeMaybeRef(r.domain !== undefined ? beginCell().storeStringTail(r.domain).endCell() : null)
+                .storeRef(r.data)
+                .storeMaybeRef(r.ext ?? null)
+                .endCell();
+        case 'text':
+            return b.storeStringRefTail(r.domain).storeStringRefTail(r.text).endCell();
+        case 'binary':
+            return b.storeStringRefTail(r.domain).storeRef(bytesCell(r.bytes)).endCell();
+        case 'cell':
+            return b.storeStringRefTail(r.domain).storeStringRefTail(r.schema).storeRef(r.cell).endCell();
+    }
+}
+
+function loadSignData(cell: Cell): SignDataRequest {
+    const s = cell.beginParse();
+    const type = SIGN_DATA_TYPES[s.loadUint(8)];
+    switch (type) {
+        case 'plaintext':
+            return { type, text: s.loadStringRefTail() };
+        case 'app-data': {
+            const address = s.loadMaybeAddress();
+            const domain = s.loadMaybeRef();
+            return {
+                type,
+                address: address ?? undefined,
+                domain: domain ? domain.beginParse().loadStringTail() : undefined,
+                data: s.loadRef(),
+                ext: s.loadMaybeRef() ?? undefined
+            };
+        }
+        case 'text': {
+            const domain = s.loadStringRefTail();
+            return { type, domain, text: s.loadStringRefTail() };
+        }
+        case 'binary': {
+            const domain = s.loadStringRefTail();
+            return { type, domain, bytes: loadBytes(s.loadRef()) };
+        }
+        case 'cell': {
+            const domain = s.loadStringRefTail();
+            const schema = s.loadStringRefTail();
+            return { type, domain, schema, cell: s.loadRef() };
+        }
+        default:
+            throw Error('Unknown sign data request type');
+    }
+}
+
+export function signingRequestToBoc(req: TonSigningRequest): Buffer {
+    const path = beginCell().storeUint(req.path.length, 8);
+    for (const p of req.path) {
+        path.storeUint(p, 32);
+    }
+    const body = req.type === 'transaction'
+        ? beginCell()
+            .storeUint(req.transaction.seqno, 32)
+            .storeUint(req.transaction.timeout, 32)
+            .storeMaybeRef(messagesCell(req.transaction.messages))
+            .endCell()
+        : beginCell()
+            .storeUint(req.timestamp, 64)
+            .storeRef(signDataCell(req.request))
+            .endCell();
+    return beginCell()
+        .storeUint(SIGNING_REQUEST_PREFIX, 32)
+        .storeUint(req.version, 8)
+        .storeUint(req.type === 'transaction' ? 0 : 1, 8)
+        .storeInt(req.chain, 8)
+        .storeUint(envelopeWalletVersion(req.walletVersion), 8)
+        .storeBit(req.testOnly)
+        .storeMaybeUint(req.subwalletId, 32)
+        .storeBuffer(req.publicKey)
+        .storeAddress(req.address)
+        .storeBuffer(req.hash)
+        .storeRef(path.endCell())
+        .storeRef(body)
+        .endCell()
+        .toBoc();
+}
+
+export function signingRequestFromBoc(src: Buffer | string): TonSigningRequest {
+    const s = Cell.fromBoc(typeof src === 'string' ? Buffer.from(src, 'base64') : src)[0].beginParse();
+    if (s.loadUint(32) !== SIGNING_REQUEST_PREFIX) {
+        throw Error('Not a signing request');
+    }
+    const version = s.loadUint(8);
+    if (version !== SIGNING_REQUEST_VERSION) {
+        throw Error(`Signing request version ${version} is not supported`);
+    }
+    const type = s.loadUint(8);
+    const chain = s.loadInt(8);
+    const walletVersion = walletVersionOfEnvelope(s.loadUint(8));
+    const testOnly = s.loadBit();
+    const subwalletId = s.loadMaybeUint(32) ?? undefined;
+    const publicKey = s.loadBuffer(32);
+    const address = s.loadAddress();
+    const hash = s.loadBuffer(32);
+    const pathSlice = s.loadRef().beginParse();
+    const path: number[] = [];
+    for (let i = pathSlice.loadUint(8); i > 0; i--) {
+        path.push(pathSlice.loadUint(32));
+    }
+    const body = s.loadRef().beginParse();
+
+    const common = { path, publicKey, chain, testOnly, walletVersion, subwalletId };
+    let decoded: TonSigningRequest;
+    if (type === 0) {
+        const seqno = body.loadUint(32);
+        const timeout = body.loadUint(32);
+        decoded = createSigningRequest({ ...common, type: 'transaction', transaction: { seqno, timeout, messages: loadMessages(body.loadMaybeRef()) } });
+    } else if (type === 1) {
+        const timestamp = Number(body.loadUintBig(64));
+        decoded = createSigningRequest({ ...common, type: 'sign-data', request: loadSignData(body.loadRef()), timestamp });
+    } else {
+        throw Error(`Unknown signing request type ${type}`);
+    }
+    return checkDecoded(decoded, hash, address);
+}
+
+//
+// Sign
+//
+
+/**
+ * Signs a request with the device, the device has to hold the key of the request
+ */
+export async function signSigningRequest(
+    transport: TonTransport,
+    req: TonSigningRequest,
+    opts?: { acknowledgeBlindSigning?: boolean } & CancellationOptions
+): Promise<TonSigningResponse> {
+    const { publicKey } = await transport.getAddress(req.path, { chain: req.chain, testOnly: req.testOnly, walletVersion: req.walletVersion, subwalletId: req.subwalletId, signal: opts?.signal, timeout: opts?.timeout });
+    if (!publicKey.equals(req.publicKey)) {
+        throw Error('Device key doesn\'t match the signing request');
+    }
+    const common = { publicKey, chain: req.chain, testOnly: req.testOnly, walletVersion: req.walletVersion, subwalletId: req.subwalletId, signal: opts?.signal, timeout: opts?.timeout };
+
+    let signature: Buffer;
+    if (req.type === 'transaction') {
+        const body = await transport.signMultiTransaction(req.path, req.transaction, { ...common, acknowledgeBlindSigning: opts?.acknowledgeBlindSigning });
+        const s = body.beginParse();
+        signature = req.walletVersion === 'v5r1'
+            ? s.skip(s.remainingBits - 512).loadBuffer(64)
+            : s.loadBuffer(64);
+    } else {
+        signature = (await transport.signData(req.path, req.request, { ...common, timestamp: req.timestamp })).signature;
+    }
+    return { version: SIGNING_REQUEST_VERSION, hash: req.hash.toString('hex'), signature: signature.toString('hex') };
+}
+
+//
+// Finalize
+//
+
+export function verifySigningResponse(req: TonSigningRequest, res: TonSigningResponse): boolean {
+    if (res.version !== SIGNING_REQUEST_VERSION || res.hash !== req.hash.toString('hex')) {
+        return false;
+    }
+    const signature = Buffer.from(res.signature, 'hex');
+    if (signature.length !== 64) {
+        return false;
+    }
+    const message = req.type === 'transaction'
+        ? req.hash
+        : serializeSignData(req.request, req.timestamp, req.address).message;
+    return signVerify(message, signature, req.publicKey);
+}
+
+/**
+ * Checks the signature and builds the signed result: an external message
+ * ready to be broadcasted for transactions or the signed cell for sign data requests
+ */
+export function finalizeSigningRequest(req: TonSigningRequest, res: TonSigningResponse): TonSigningResult {
+    if (!verifySigningResponse(req, res)) {
+        throw Error('Signature doesn\'t match the signing request');
+    }
+    const signature = Buffer.from(res.signature, 'hex');
+    if (req.type === 'transaction') {
+        const { transfer } = serializeTransfer(req.transaction, req.walletVersion, getWalletId(req.chain, req.walletVersion, req.subwalletId, req.testOnly));
+        const body = packSignedTransfer(transfer, signature, req.walletVersion);
+        const external = createExternalMessage({ body, publicKey: req.publicKey, seqno: req.transaction.seqno, chain: req.chain, testOnly: req.testOnly, walletVersion: req.walletVersion, subwalletId: req.subwalletId });
+        return { type: 'transaction', signature, body, external };
+    }
+    const { cell } = serializeSignData(req.request, req.timestamp, req.address);
+    return { type: 'sign-data', signature, cell, timestamp: req.timestamp };
+}
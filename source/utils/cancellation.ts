@@ -0,0 +1,59 @@
+import { CancelledError, TimeoutError } from '../errors';
+
+export type CancellationOptions = {
+    signal?: AbortSignal,
+    timeout?: number
+};
+
+function reasonOf(signal: AbortSignal) {
+    return signal.reason instanceof CancelledError ? signal.reason : new CancelledError('Operation was cancelled');
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) {
+        throw reasonOf(signal);
+    }
+}
+
+/**
+ * Rejects as soon as signal is aborted, source promise keeps running
+ */
+export function abortable<T>(src: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return src;
+    }
+    if (signal.aborted) {
+        return Promise.reject(reasonOf(signal));
+    }
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(reasonOf(signal));
+        signal.addEventListener('abort', onAbort, { once: true });
+        src.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * Runs an operation with a signal that is aborted by the caller's signal or after the timeout
+ */
+export async function withCancellation<T>(opts: CancellationOptions | undefined, f: (signal?: AbortSignal) => Promise<T>): Promise<T> {
+    if (!opts?.signal && opts?.timeout === undefined) {
+        return f(undefined);
+    }
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(reasonOf(opts.signal!));
+    opts.signal?.addEventListener('abort', onAbort, { once: true });
+    if (opts.signal?.aborted) {
+        onAbort();
+    }
+    const timer = opts.timeout !== undefined
+        ? setTimeout(() => controller.abort(new TimeoutError(`Operation timed out after ${opts.timeout}ms`)), opts.timeout)
+        : null;
+    try {
+        return await abortable(f(controller.signal), controller.signal);
+    } finally {
+        opts.signal?.removeEventListener('abort', onAbort);
+        if (timer) {
+            clearTimeout(timer);
+        }
+    }
+}
@@ -0,0 +1,92 @@
+import { SignDataRequest, TonPayloadFormat } from '../TonTransport';
+import { WalletVersion } from './getInit';
+
+export type TonAppVersion = { major: number, minor: number, patch: number };
+
+export type TonAppSettings = {
+    blindSigning: boolean,
+    expertMode: boolean
+};
+
+export type TonAppCapabilities = {
+    version: TonAppVersion,
+    payloadTypes: TonPayloadFormat['type'][],
+    signDataSchemas: SignDataRequest['type'][],
+    walletVersions: WalletVersion[],
+    addressFlags: { testOnly: boolean, masterchain: boolean, walletSpecifiers: boolean },
+    multipleMessages: boolean,
+    subwalletId: boolean,
+    settings: TonAppSettings | null
+};
+
+// Features and the app version that introduced them
+const PAYLOAD_TYPES: [TonPayloadFormat['type'], string][] = [
+    ['comment', '2.0.0'],
+    ['jetton-transfer', '2.0.0'],
+    ['nft-transfer', '2.0.0'],
+    ['unsafe', '2.0.0'],
+    ['jetton-burn', '2.1.0'],
+    ['change-dns-record', '2.1.0'],
+    ['nft-prove-ownership', '2.1.0'],
+    ['excesses', '2.1.0'],
+    ['single-nominator-withdraw', '2.1.0'],
+    ['single-nominator-change-validator', '2.1.0'],
+    ['tonstakers-deposit', '2.1.0'],
+    ['tonstakers-withdraw', '2.2.0'],
+];
+const SIGN_DATA_SCHEMAS: [SignDataRequest['type'], string][] = [
+    ['plaintext', '2.0.0'],
+    ['app-data', '2.0.0'],
+    ['text', '2.3.0'],
+    ['binary', '2.3.0'],
+    ['cell', '2.3.0'],
+];
+const WALLET_VERSIONS: [WalletVersion, string][] = [
+    ['v4', '2.0.0'],
+];
+const SETTINGS_VERSION = '2.1.0';
+const WALLET_SPECIFIERS_VERSION = '2.1.0';
+// Wallet V5R1 and multiple messages use the extension layouts of serializeTransfer and processAddressFlags.
+// No released app implements them, only TonEmulatorTransport does, so they are reported on request only.
+const EXPERIMENTAL_LAYOUTS_VERSION = '2.2.0';
+// Wallet specifiers are accepted by all requests since 2.2.0
+const SUBWALLET_ID_VERSION = '2.2.0';
+
+export function parseVersion(version: string): TonAppVersion {
+    const m = /^(\d+)\.(\d+)\.(\d+)$/.exec(version);
+    if (!m) {
+        throw Error('Invalid app version: ' + version);
+    }
+    return { major: parseInt(m[1], 10), minor: parseInt(m[2], 10), patch: parseInt(m[3], 10) };
+}
+
+export function isVersionAtLeast(version: TonAppVersion, min: string) {
+    const v = parseVersion(min);
+    if (version.major !== v.major) {
+        return version.major > v.major;
+    }
+    if (version.minor !== v.minor) {
+        return version.minor > v.minor;
+    }
+    return version.patch >= v.patch;
+}
+
+export function supportsSettings(version: TonAppVersion) {
+    return isVersionAtLeast(version, SETTINGS_VERSION);
+}
+
+export function getCapabilities(version: string, settings: TonAppSettings | null, opts?: { experimentalLayouts?: boolean }): TonAppCapabilities {
+    const parsed = parseVersion(version);
+    const supported = <T>(features: [T, string][]) => features.filter(([, min]) => isVersionAtLeast(parsed, min)).map(([f]) => f);
+    const experimental = opts?.experimentalLayouts === true && isVersionAtLeast(parsed, EXPERIMENTAL_LAYOUTS_VERSION);
+    return {
+        version: parsed,
+        payloadTypes: supported(PAYLOAD_TYPES),
+        signDataSchemas: supported(SIGN_DATA_SCHEMAS),
+        walletVersions: experimental ? [...supported(WALLET_VERSIONS), 'v5r1'] : supported(WALLET_VERSIONS),
+        addressFlags: { testOnly: true, masterchain: true, walletSpecifiers: isVersionAtLeast(parsed, WALLET_SPECIFIERS_VERSION) },
+        multipleMessages: experimental,
+        subwalletId: isVersionAtLeast(parsed, SUBWALLET_ID_VERSION),
+        settings
+    };
+}
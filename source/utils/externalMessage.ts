@@ -0,0 +1,29 @@
+import { Address, beginCell, Cell, contractAddress, Message, storeMessage } from '@ton/core';
+import { getInit, WalletVersion } from './getInit';
+
+export type TonExternalMessage = {
+    address: Address,
+    message: Message,
+    cell: Cell,
+    boc: Buffer,
+    bocBase64: string,
+    hash: Buffer
+};
+
+/**
+ * Wraps a signed transfer into an external message to the wallet, state init is attached
+ * when seqno is 0 since the wallet is not deployed yet
+ */
+export function createExternalMessage(args: { body: Cell, publicKey: Buffer, seqno: number, chain?: number, testOnly?: boolean, walletVersion?: WalletVersion, subwalletId?: number }): TonExternalMessage {
+    const chain = args.chain ?? 0;
+    const init = getInit(chain, args.publicKey, args.walletVersion, args.subwalletId, args.testOnly);
+    const address = contractAddress(chain, init);
+    const message: Message = {
+        info: { type: 'external-in', dest: address, importFee: 0n },
+        init: args.seqno === 0 ? init : null,
+        body: args.body
+    };
+    const cell = beginCell().store(storeMessage(message)).endCell();
+    const boc = cell.toBoc();
+    return { address, message, cell, boc, bocBase64: boc.toString('base64'), hash: cell.hash() };
+}
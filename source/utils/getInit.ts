@@ -1,12 +1,79 @@
 import { Cell, beginCell } from '@ton/core';
 
-export function getInit(workchain: number, publicKey: Buffer) {
-    let code = Cell.fromBoc(Buffer.from('te6ccgECFAEAAtQAART/APSkE/S88sgLAQIBIAIDAgFIBAUE+PKDCNcYINMf0x/THwL4I7vyZO1E0NMf0x/T//QE0VFDuvKhUVG68qIF+QFUEGT5EPKj+AAkpMjLH1JAyx9SMMv/UhD0AMntVPgPAdMHIcAAn2xRkyDXSpbTB9QC+wDoMOAhwAHjACHAAuMAAcADkTDjDQOkyMsfEssfy/8QERITAubQAdDTAyFxsJJfBOAi10nBIJJfBOAC0x8hghBwbHVnvSKCEGRzdHK9sJJfBeAD+kAwIPpEAcjKB8v/ydDtRNCBAUDXIfQEMFyBAQj0Cm+hMbOSXwfgBdM/yCWCEHBsdWe6kjgw4w0DghBkc3RyupJfBuMNBgcCASAICQB4AfoA9AQw+CdvIjBQCqEhvvLgUIIQcGx1Z4MesXCAGFAEywUmzxZY+gIZ9ADLaRfLH1Jgyz8gyYBA+wAGAIpQBIEBCPRZMO1E0IEBQNcgyAHPFvQAye1UAXKwjiOCEGRzdHKDHrFwgBhQBcsFUAPPFiP6AhPLassfyz/JgED7AJJfA+ICASAKCwBZvSQrb2omhAgKBrkPoCGEcNQICEekk30pkQzmkD6f+YN4EoAbeBAUiYcVnzGEAgFYDA0AEbjJftRNDXCx+AA9sp37UTQgQFA1yH0BDACyMoHy//J0AGBAQj0Cm+hMYAIBIA4PABmtznaiaEAga5Drhf/AABmvHfaiaEAQa5DrhY/AAG7SB/oA1NQi+QAFyMoHFcv/ydB3dIAYyMsFywIizxZQBfoCFMtrEszMyXP7AMhAFIEBCPRR8qcCAHCBAQjXGPoA0z/IVCBHgQEI9FHyp4IQbm90ZXB0gBjIywXLAlAGzxZQBPoCFMtqEssfyz/Jc/sAAgBsgQEI1xj6ANM/MFIkgQEI9Fnyp4IQZHN0cnB0gBjIywXLAlAFzxZQA/oCE8tqyx8Syz/Jc/sAAAr0AMntVA==', 'base64'))[0];
+export type WalletVersion = 'v4' | 'v5r1';
+
+const codeV4 = Cell.fromBoc(Buffer.from('te6ccgECFAEAAtQAART/APSkE/S88sgLAQIBIAIDAgFIBAUE+PKDCNcYINMf0x/THwL4I7vyZO1E0NMf0x/T//QE0VFDuvKhUVG68qIF+QFUEGT5EPKj+AAkpMjLH1JAyx9SMMv/UhD0AMntVPgPAdMHIcAAn2xRkyDXSpbTB9QC+wDoMOAhwAHjACHAAuMAAcADkTDjDQOkyMsfEssfy/8QERITAubQAdDTAyFxsJJfBOAi10nBIJJfBOAC0x8hghBwbHVnvSKCEGRzdHK9sJJfBeAD+kAwIPpEAcjKB8v/ydDtRNCBAUDXIfQEMFyBAQj0Cm+hMbOSXwfgBdM/yCWCEHBsdWe6kjgw4w0DghBkc3RyupJfBuMNBgcCASAICQB4AfoA9AQw+CdvIjBQCqEhvvLgUIIQcGx1Z4MesXCAGFAEywUmzxZY+gIZ9ADLaRfLH1Jgyz8gyYBA+wAGAIpQBIEBCPRZMO1E0IEBQNcgyAHPFvQAye1UAXKwjiOCEGRzdHKDHrFwgBhQBcsFUAPPFiP6AhPLassfyz/JgED7AJJfA+ICASAKCwBZvSQrb2omhAgKBrkPoCGEcNQICEekk30pkQzmkD6f+YN4EoAbeBAUiYcVnzGEAgFYDA0AEbjJftRNDXCx+AA9sp37UTQgQFA1yH0BDACyMoHy//J0AGBAQj0Cm+hMYAIBIA4PABmtznaiaEAga5Drhf/AABmvHfaiaEAQa5DrhY/AAG7SB/oA1NQi+QAFyMoHFcv/ydB3dIAYyMsFywIizxZQBfoCFMtrEszMyXP7AMhAFIEBCPRR8qcCAHCBAQjXGPoA0z/IVCBHgQEI9FHyp4IQbm90ZXB0gBjIywXLAlAGzxZQBPoCFMtqEssfyz/Jc/sAAgBsgQEI1xj6ANM/MFIkgQEI9Fnyp4IQZHN0cnB0gBjIywXLAlAFzxZQA/oCE8tqyx8Syz/Jc/sAAAr0AMntVA==', 'base64'))[0];
+const codeV5R1 = Cell.fromBoc(Buffer.from('te6cckECFAEAAoEAART/APSkE/S88sgLAQIBIAINAgFIAwQC3NAg10nBIJFbj2Mg1wsfIIIQZXh0br0hghBzaW50vbCSXwPgghBleHRuuo60gCDXIQHQdNch+kAw+kT4KPpEMFi9kVvg7UTQgQFB1yH0BYMH9A5voTGRMOGAQNchcH/bPOAxINdJgQKAuZEw4HDiEA8CASAFDAIBIAYJAgFuBwgAGa3OdqJoQCDrkOuF/8AAGa8d9qJoQBDrkOuFj8ACAUgKCwAXsyX7UTQcdch1wsfgABGyYvtRNDXCgCAAGb5fD2omhAgKDrkPoCwBAvIOAR4g1wsfghBzaWduuvLgin8PAeaO8O2i7fshgwjXIgKDCNcjIIAg1yHTH9Mf0x/tRNDSANMfINMf0//XCgAK+QFAzPkQmiiUXwrbMeHywIffArNQB7Dy0IRRJbry4IVQNrry4Ib4I7vy0IgikvgA3gGkf8jKAMsfAc8Wye1UIJL4D95w2zzYEAP27aLt+wL0BCFukmwhjkwCIdc5MHCUIccAs44tAdcoIHYeQ2wg10nACPLgkyDXSsAC8uCTINcdBscSwgBSMLDy0InXTNc5MAGk6GwShAe78uCT10rAAPLgk+1V4tIAAcAAkVvg69csCBQgkXCWAdcsCBwS4lIQseMPINdKERITAJYB+kAB+kT4KPpEMFi68uCR7UTQgQFB1xj0BQSdf8jKAEAEgwf0U/Lgi44UA4MH9Fvy4Iwi1woAIW4Bs7Dy0JDiyFADzxYS9ADJ7VQAcjDXLAgkji0h8uCS0gDtRNDSAFETuvLQj1RQMJExnAGBAUDXIdcKAPLgjuLIygBYzxbJ7VST8sCN4gAQk1vbMeHXTNC01sNe', 'base64'))[0];
+
+export const DEFAULT_SUBWALLET_ID = 698983191;
+
+/**
+ * Largest subwallet id of the wallet version: the whole wallet id for V4 and the subwallet number
+ * of the client context for V5
+ */
+export function maxSubwalletId(walletVersion: WalletVersion = 'v4') {
+    return walletVersion === 'v5r1' ? 0x7fff : 0xffffffff;
+}
+
+/**
+ * Wallet id stored in the wallet data. V5 wallet id depends on the network, so testnet V5 wallets
+ * have other addresses than mainnet ones
+ */
+export function getWalletId(workchain: number, walletVersion: WalletVersion = 'v4', subwalletId?: number, testOnly: boolean = false) {
+    if (subwalletId !== undefined && (!Number.isInteger(subwalletId) || subwalletId < 0 || subwalletId > maxSubwalletId(walletVersion))) {
+        throw Error(`Subwallet id must be an integer between 0 and ${maxSubwalletId(walletVersion)}`);
+    }
+    if (walletVersion === 'v5r1') {
+        // Client context: flag, workchain, wallet version and subwallet number, xored with the network global id
+        const context = ((1 << 31) | ((workchain & 0xff) << 23) | (0 << 15) | (subwalletId ?? 0)) >>> 0;
+        const globalId = testOnly ? -3 : -239;
+        return (context ^ (globalId >>> 0)) >>> 0;
+    }
+    return subwalletId ?? DEFAULT_SUBWALLET_ID + workchain;
+}
+
+export function getInit(workchain: number, publicKey: Buffer, walletVersion: WalletVersion = 'v4', subwalletId?: number, testOnly: boolean = false) {
+    if (walletVersion === 'v5r1') {
+        let data = beginCell()
+            .storeBit(1) // Signature auth allowed
+            .storeUint(0, 32) // Seqno
+            .storeUint(getWalletId(workchain, walletVersion, subwalletId, testOnly), 32)
+            .storeBuffer(publicKey)
+            .storeBit(0) // Empty extensions dict
+            .endCell();
+        return { code: codeV5R1, data };
+    }
     let data = beginCell()
         .storeUint(0, 32) // Seqno
-        .storeUint(698983191 + workchain, 32)
+        .storeUint(getWalletId(workchain, walletVersion, subwalletId), 32)
         .storeBuffer(publicKey)
         .storeBit(0) // Empty plugins dict
         .endCell();
-    return { code, data };
-}
\ No newline at end of file
+    return { code: codeV4, data };
+}
+
+/**
+ * Detects the wallet version and reads the public key of a state init built with getInit
+ */
+export function parseInit(init: { code?: Cell | null, data?: Cell | null }): { walletVersion: WalletVersion, publicKey: Buffer } | null {
+    if (!init.code || !init.data) {
+        return null;
+    }
+    let walletVersion: WalletVersion;
+    let skip: number;
+    if (init.code.equals(codeV4)) {
+        walletVersion = 'v4';
+        skip = 32 + 32; // Seqno, wallet id
+    } else if (init.code.equals(codeV5R1)) {
+        walletVersion = 'v5r1';
+        skip = 1 + 32 + 32; // Signature auth flag, seqno, wallet id
+    } else {
+        return null;
+    }
+    const s = init.data.beginParse();
+    if (s.remainingBits < skip + 256) {
+        return null;
+    }
+    s.skip(skip);
+    return { walletVersion, publicKey: s.loadBuffer(32) };
+}
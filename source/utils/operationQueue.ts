@@ -0,0 +1,81 @@
+import { abortable, throwIfAborted } from './cancellation';
+
+export type TonOperationPriority = 'high' | 'normal' | 'low';
+
+export type TonOperation = {
+    id: number,
+    name: string,
+    priority: TonOperationPriority,
+    state: 'queued' | 'running'
+};
+
+const PRIORITY_ORDER: Record<TonOperationPriority, number> = { high: 2, normal: 1, low: 0 };
+
+type Entry = { operation: TonOperation, start: () => void };
+
+/**
+ * Runs operations one at a time, so that all APDUs of an operation reach the device without
+ * interleaving. Queued operations start by priority and then in the order they were added.
+ */
+export class OperationQueue {
+    #nextId = 1;
+    #running: TonOperation | null = null;
+    #queued: Entry[] = [];
+
+    /**
+     * Running operation first, then queued ones in the order they will start
+     */
+    get operations(): TonOperation[] {
+        const operations = this.#running ? [this.#running, ...this.#queued.map((e) => e.operation)] : this.#queued.map((e) => e.operation);
+        return operations.map((o) => ({ ...o }));
+    }
+
+    /**
+     * Holds the device until f settles. Cancelling a queued operation removes it from the queue.
+     */
+    async run<T>(name: string, priority: TonOperationPriority, signal: AbortSignal | undefined, f: (operation: TonOperation) => Promise<T>): Promise<T> {
+        throwIfAborted(signal);
+        const entry: Entry = { operation: { id: this.#nextId++, name, priority, state: 'queued' }, start: () => { } };
+        const started = new Promise<void>((resolve) => entry.start = resolve);
+        const index = this.#queued.findIndex((e) => PRIORITY_ORDER[e.operation.priority] < PRIORITY_ORDER[priority]);
+        this.#queued.splice(index < 0 ? this.#queued.length : index, 0, entry);
+        this.#next();
+
+        try {
+            await abortable(started, signal);
+        } catch (e) {
+            const queued = this.#queued.indexOf(entry);
+            if (queued >= 0) {
+                this.#queued.splice(queued, 1);
+            } else {
+                // Aborted right as it was started
+                this.#release();
+            }
+            throw e;
+        }
+
+        try {
+            return await f(entry.operation);
+        } finally {
+            this.#release();
+        }
+    }
+
+    #release() {
+        this.#running = null;
+        this.#next();
+    }
+
+    #next() {
+        if (this.#running) {
+            return;
+        }
+        const entry = this.#queued.shift();
+        if (!entry) {
+            return;
+        }
+        entry.operation.state = 'running';
+        this.#running = entry.operation;
+        entry.start();
+    }
+}
@@ -0,0 +1,103 @@
+import { Address, beginCell } from '@ton/core';
+import { TonPayloadFormat } from '../TonTransport';
+import { parsePayload } from './parsePayload';
+import { serializePayload } from './serializePayload';
+
+const ADDRESS = Address.parse('EQBNVUFfKt2QgqKL5vZvnyP50wmniCFP2ASOKAE-g2noRDlR');
+
+describe('parsePayload', () => {
+    it('should parse comments', () => {
+        const cell = beginCell().storeUint(0, 32).storeBuffer(Buffer.from('Deposit')).endCell();
+        expect(parsePayload(cell)).toEqual({ payload: { type: 'comment', text: 'Deposit' } });
+
+        const longest = 'a'.repeat(123);
+        expect(parsePayload(beginCell().storeUint(0, 32).storeBuffer(Buffer.from(longest)).endCell())).toEqual({ payload: { type: 'comment', text: longest } });
+    });
+
+    it('should parse jetton transfers', () => {
+        const cell = beginCell()
+            .storeUint(0x0f8a7ea5, 32)
+            .storeUint(12, 64)
+            .storeCoins(1000)
+            .storeAddress(ADDRESS)
+            .storeAddress(ADDRESS)
+            .storeBit(0)
+            .storeCoins(1)
+            .storeMaybeRef(beginCell().storeUint(0, 32).endCell())
+            .endCell();
+        const res = parsePayload(cell);
+        expect(res.payload?.type).toBe('jetton-transfer');
+        expect(serializePayload(res.payload!).cell.hash().equals(cell.hash())).toBe(true);
+    });
+
+    it('should parse nft transfers', () => {
+        const cell = beginCell()
+            .storeUint(0x5fcc3d14, 32)
+            .storeUint(0, 64)
+            .storeAddress(ADDRESS)
+            .storeAddress(ADDRESS)
+            .storeBit(0)
+            .storeCoins(0)
+            .storeBit(0)
+            .endCell();
+        const res = parsePayload(cell);
+        expect(res.payload?.type).toBe('nft-transfer');
+        expect(serializePayload(res.payload!).cell.hash().equals(cell.hash())).toBe(true);
+    });
+
+    it('should round trip extended payloads', () => {
+        const payloads: TonPayloadFormat[] = [
+            { type: 'jetton-burn', queryId: 1n, amount: 100n, responseDestination: ADDRESS, customPayload: beginCell().endCell() },
+            { type: 'change-dns-record', queryId: 0n, record: { type: 'wallet', value: { address: ADDRESS, isWallet: false } } },
+            { type: 'change-dns-record', queryId: 0n, record: { type: 'site', value: { adnlAddress: Buffer.alloc(32, 1) } } },
+            { type: 'change-dns-record', queryId: 0n, record: { type: 'storage', value: { bagId: Buffer.alloc(32, 2) } } },
+            { type: 'change-dns-record', queryId: 0n, record: { type: 'wallet', value: null } },
+            { type: 'nft-prove-ownership', queryId: 2n, destination: ADDRESS, forwardPayload: beginCell().endCell(), withContent: false },
+            { type: 'excesses', queryId: 3n },
+            { type: 'single-nominator-withdraw', queryId: 0n, amount: 10n },
+            { type: 'single-nominator-change-validator', queryId: 0n, address: ADDRESS },
+            { type: 'tonstakers-deposit', queryId: 0n, appId: 7n },
+            { type: 'tonstakers-deposit', queryId: 0n, appId: null },
+            { type: 'tonstakers-withdraw', queryId: 0n, amount: 10n, responseDestination: ADDRESS, waitTillRoundEnd: true, fillOrKill: false }
+        ];
+        for (let payload of payloads) {
+            const cell = serializePayload(payload).cell;
+            const res = parsePayload(cell);
+            expect(res.payload?.type).toBe(payload.type);
+            expect(serializePayload(res.payload!).cell.hash().equals(cell.hash())).toBe(true);
+        }
+    });
+
+    it('should parse payloads with the same cell as expected type', () => {
+        const withdraw: TonPayloadFormat = { type: 'tonstakers-withdraw', queryId: 0n, amount: 10n, responseDestination: ADDRESS, waitTillRoundEnd: false, fillOrKill: true };
+        const cell = serializePayload(withdraw).cell;
+        for (const res of [parsePayload(cell), parsePayload(cell, { type: 'tonstakers-withdraw' })]) {
+            expect(res.payload).toMatchObject({ type: 'tonstakers-withdraw', waitTillRoundEnd: false, fillOrKill: true });
+            expect(serializePayload(res.payload!).cell.hash().equals(cell.hash())).toBe(true);
+        }
+        const burn = parsePayload(cell, { type: 'jetton-burn' }).payload;
+        expect(burn?.type).toBe('jetton-burn');
+        expect(serializePayload(burn!).cell.hash().equals(cell.hash())).toBe(true);
+        expect(parsePayload(cell, { type: 'excesses' }).reason).toBe('Payload is tonstakers-withdraw, not excesses');
+    });
+
+    it('should explain unsupported payloads', () => {
+        expect(parsePayload(beginCell().storeUint(0x12345678, 32).endCell()).reason).toBe('Unknown op code 0x12345678');
+        expect(parsePayload(beginCell().storeUint(0, 32).storeStringRefTail('Long').endCell()).payload).toBeNull();
+        expect(parsePayload(beginCell().storeUint(0, 32).storeBuffer(Buffer.from('Привет')).endCell()).payload).toBeNull();
+        expect(parsePayload(beginCell().storeUint(0x5fcc3d14, 32).storeUint(0, 64).storeAddress(null).endCell()).reason).toBe(`Field 'newOwner' is empty`);
+        expect(parsePayload(beginCell().storeUint(0x0f8a7ea5, 32).storeUint(0, 64).endCell()).reason).toBe('Payload is malformed');
+        const inline = beginCell()
+            .storeUint(0x5fcc3d14, 32)
+            .storeUint(0, 64)
+            .storeAddress(ADDRESS)
+            .storeAddress(ADDRESS)
+            .storeBit(0)
+            .storeCoins(0)
+            .storeBit(0)
+            .storeUint(0, 32)
+            .endCell();
+        expect(parsePayload(inline).payload).toBeNull();
+        expect(parsePayload(beginCell().endCell()).payload).toBeNull();
+    });
+});
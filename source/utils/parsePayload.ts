@@ -0,0 +1,254 @@
+import { Address, Cell, Slice } from '@ton/core';
+import { TonDNSRecord, TonPayloadFormat } from '../TonTransport';
+import { dnsRecordKey, serializePayload } from './serializePayload';
+import { MAX_COMMENT_BYTES } from './validation';
+
+export type ParsedPayload =
+    | { payload: TonPayloadFormat, reason?: undefined }
+    | { payload: null, reason: string };
+
+class PayloadParseError extends Error { }
+
+function loadInternalAddress(s: Slice, field: string): Address {
+    let address;
+    try {
+        address = s.loadMaybeAddress();
+    } catch (e) {
+        throw new PayloadParseError(`Field '${field}' is not an internal address`);
+    }
+    if (!address) {
+        throw new PayloadParseError(`Field '${field}' is empty`);
+    }
+    return address;
+}
+
+function loadMaybeRef(s: Slice, field: string): Cell | null {
+    if (s.loadBit()) {
+        if (s.remainingRefs === 0) {
+            throw new PayloadParseError(`Field '${field}' is missing its reference`);
+        }
+        return s.loadRef();
+    }
+    return null;
+}
+
+function parseComment(s: Slice): TonPayloadFormat {
+    if (s.remainingRefs > 0) {
+        throw new PayloadParseError('Comment continues in a reference');
+    }
+    if (s.remainingBits % 8 !== 0) {
+        throw new PayloadParseError('Comment is not byte aligned');
+    }
+    const text = s.loadBuffer(s.remainingBits / 8);
+    if (text.length > MAX_COMMENT_BYTES) {
+        throw new PayloadParseError(`Comment is longer than ${MAX_COMMENT_BYTES} bytes`);
+    }
+    for (const c of text) {
+        if (c < 0x20 || c > 0x7e) {
+            throw new PayloadParseError('Comment contains non-printable or non-ASCII characters');
+        }
+    }
+    return { type: 'comment', text: text.toString('ascii') };
+}
+
+function parseTransfer(s: Slice, type: 'jetton-transfer' | 'nft-transfer'): TonPayloadFormat {
+    const queryId = s.loadUintBig(64);
+    let payload: TonPayloadFormat;
+    if (type === 'jetton-transfer') {
+        const amount = s.loadCoins();
+        const destination = loadInternalAddress(s, 'destination');
+        const responseDestination = loadInternalAddress(s, 'responseDestination');
+        const customPayload = loadMaybeRef(s, 'customPayload');
+        const forwardAmount = s.loadCoins();
+        const forwardPayload = loadMaybeRef(s, 'forwardPayload');
+        payload = { type, queryId, amount, destination, responseDestination, customPayload, forwardAmount, forwardPayload };
+    } else {
+        const newOwner = loadInternalAddress(s, 'newOwner');
+        const responseDestination = loadInternalAddress(s, 'responseDestination');
+        const customPayload = loadMaybeRef(s, 'customPayload');
+        const forwardAmount = s.loadCoins();
+        const forwardPayload = loadMaybeRef(s, 'forwardPayload');
+        payload = { type, queryId, newOwner, responseDestination, customPayload, forwardAmount, forwardPayload };
+    }
+    if (s.remainingBits > 0 || s.remainingRefs > 0) {
+        throw new PayloadParseError('Forward payload is stored inline or payload has trailing data');
+    }
+    return payload;
+}
+
+function ensureEnd(s: Slice) {
+    if (s.remainingBits > 0 || s.remainingRefs > 0) {
+        throw new PayloadParseError('Payload has trailing data');
+    }
+}
+
+// Tonstakers unstaking is a burn of pool jettons with withdrawal options in the custom payload
+function isTonstakersWithdrawal(customPayload: Cell | null) {
+    return customPayload !== null && customPayload.bits.length === 2 && customPayload.refs.length === 0;
+}
+
+function parseJettonBurn(s: Slice, type?: TonPayloadFormat['type']): TonPayloadFormat {
+    const queryId = s.loadUintBig(64);
+    const amount = s.loadCoins();
+    const responseDestination = loadInternalAddress(s, 'responseDestination');
+    const customPayload = loadMaybeRef(s, 'customPayload');
+    ensureEnd(s);
+    if (type === 'jetton-burn' || (type === undefined && !isTonstakersWithdrawal(customPayload))) {
+        return { type: 'jetton-burn', queryId, amount, responseDestination, customPayload };
+    }
+    if (!isTonstakersWithdrawal(customPayload)) {
+        throw new PayloadParseError('Custom payload doesn\'t contain Tonstakers withdrawal options');
+    }
+    const options = customPayload!.beginParse();
+    const waitTillRoundEnd = options.loadBit();
+    const fillOrKill = options.loadBit();
+    return { type: 'tonstakers-withdraw', queryId, amount, responseDestination, waitTillRoundEnd, fillOrKill };
+}
+
+function parseDNSRecord(s: Slice): TonPayloadFormat {
+    const queryId = s.loadUintBig(64);
+    const key = s.loadBuffer(32);
+    const type = (['wallet', 'site', 'storage'] as const).find((t) => dnsRecordKey(t).equals(key));
+    if (!type) {
+        throw new PayloadParseError('Unknown DNS record key');
+    }
+    const value = loadMaybeRef(s, 'value');
+    ensureEnd(s);
+
+    let record: TonDNSRecord;
+    if (!value) {
+        record = { type, value: null };
+    } else {
+        const v = value.beginParse();
+        switch (type) {
+            case 'wallet': {
+                if (v.loadUint(16) !== 0x9fd3) {
+                    throw new PayloadParseError('DNS wallet record has wrong tag');
+                }
+                const address = loadInternalAddress(v, 'address');
+                const isWallet = v.loadUint(8) === 1;
+                if (isWallet && (!v.loadBit() || v.loadUint(16) !== 0x2177 || v.loadBit())) {
+                    throw new PayloadParseError('DNS wallet record has unsupported capabilities');
+                }
+                record = { type, value: { address, isWallet } };
+                break;
+            }
+            case 'site': {
+                if (v.loadUint(16) !== 0xad01) {
+                    throw new PayloadParseError('DNS site record has wrong tag');
+                }
+                record = { type, value: { adnlAddress: v.loadBuffer(32) } };
+                v.loadUint(8);
+                break;
+            }
+            case 'storage': {
+                if (v.loadUint(16) !== 0x7473) {
+                    throw new PayloadParseError('DNS storage record has wrong tag');
+                }
+                record = { type, value: { bagId: v.loadBuffer(32) } };
+                break;
+            }
+        }
+        ensureEnd(v);
+    }
+    return { type: 'change-dns-record', queryId, record };
+}
+
+function parseProveOwnership(s: Slice): TonPayloadFormat {
+    const queryId = s.loadUintBig(64);
+    const destination = loadInternalAddress(s, 'destination');
+    const forwardPayload = s.loadRef();
+    const withContent = s.loadBit();
+    ensureEnd(s);
+    return { type: 'nft-prove-ownership', queryId, destination, forwardPayload, withContent };
+}
+
+function parseExcesses(s: Slice): TonPayloadFormat {
+    const queryId = s.loadUintBig(64);
+    ensureEnd(s);
+    return { type: 'excesses', queryId };
+}
+
+function parseSingleNominator(s: Slice, op: number): TonPayloadFormat {
+    const queryId = s.loadUintBig(64);
+    let payload: TonPayloadFormat;
+    if (op === 0x1000) {
+        payload = { type: 'single-nominator-withdraw', queryId, amount: s.loadCoins() };
+    } else {
+        payload = { type: 'single-nominator-change-validator', queryId, address: loadInternalAddress(s, 'address') };
+    }
+    ensureEnd(s);
+    return payload;
+}
+
+function parseTonstakersDeposit(s: Slice): TonPayloadFormat {
+    const queryId = s.loadUintBig(64);
+    const appId = s.remainingBits > 0 ? s.loadUintBig(64) : null;
+    ensureEnd(s);
+    return { type: 'tonstakers-deposit', queryId, appId };
+}
+
+/**
+ * Detects a payload format that the device can show in clear-sign mode.
+ * Returns a reason instead when the cell can only be signed blindly.
+ * Pass the expected type to tell apart formats with the same cell, like
+ * a jetton burn and a Tonstakers withdrawal.
+ */
+export function parsePayload(cell: Cell, opts?: { type?: TonPayloadFormat['type'] }): ParsedPayload {
+    let payload: TonPayloadFormat;
+    try {
+        const s = cell.beginParse();
+        if (s.remainingBits < 32) {
+            return { payload: null, reason: 'Payload is too short to contain an op code' };
+        }
+        const op = s.loadUint(32);
+        switch (op) {
+            case 0x00000000:
+                payload = parseComment(s);
+                break;
+            case 0x0f8a7ea5:
+                payload = parseTransfer(s, 'jetton-transfer');
+                break;
+            case 0x5fcc3d14:
+                payload = parseTransfer(s, 'nft-transfer');
+                break;
+            case 0x595f07bc:
+                payload = parseJettonBurn(s, opts?.type);
+                break;
+            case 0x4eb1f0f9:
+                payload = parseDNSRecord(s);
+                break;
+            case 0x04ded148:
+                payload = parseProveOwnership(s);
+                break;
+            case 0xd53276db:
+                payload = parseExcesses(s);
+                break;
+            case 0x1000:
+            case 0x1001:
+                payload = parseSingleNominator(s, op);
+                break;
+            case 0x47d54391:
+                payload = parseTonstakersDeposit(s);
+                break;
+            default:
+                return { payload: null, reason: `Unknown op code 0x${op.toString(16).padStart(8, '0')}` };
+        }
+    } catch (e) {
+        if (e instanceof PayloadParseError) {
+            return { payload: null, reason: e.message };
+        }
+        return { payload: null, reason: 'Payload is malformed' };
+    }
+
+    if (opts?.type !== undefined && payload.type !== opts.type) {
+        return { payload: null, reason: `Payload is ${payload.type}, not ${opts.type}` };
+    }
+
+    // Device rebuilds the cell from hints, so it must be serialized exactly the same way
+    if (!serializePayload(payload).cell.hash().equals(cell.hash())) {
+        return { payload: null, reason: 'Payload is not serialized canonically' };
+    }
+
+    return { payload };
+}
@@ -0,0 +1,32 @@
+import { formatPath, parseAccountPath, parsePath, pathForAccount, validatePath } from './path';
+
+describe('path', () => {
+    it('should build account paths', () => {
+        expect(pathForAccount(false, 0, 0)).toEqual([44, 607, 0, 0, 0, 0]);
+        expect(pathForAccount(true, -1, 7)).toEqual([44, 607, 1, 255, 7, 0]);
+        expect(() => pathForAccount(false, 1, 0)).toThrow('Workchain must be 0 or -1');
+        expect(() => pathForAccount(false, 0, -1)).toThrow('Account must be an integer');
+    });
+
+    it('should format and parse path strings', () => {
+        const path = pathForAccount(true, -1, 3);
+        expect(formatPath(path)).toBe('m/44\'/607\'/1\'/255\'/3\'/0\'');
+        expect(parsePath(formatPath(path))).toEqual(path);
+        expect(parsePath('44h/607h/0h/0h/2h/0h')).toEqual([44, 607, 0, 0, 2, 0]);
+    });
+
+    it('should decode account paths', () => {
+        expect(parseAccountPath('m/44\'/607\'/1\'/255\'/3\'/0\'')).toEqual({ testnet: true, workchain: -1, account: 3 });
+        expect(parseAccountPath([44, 607, 0, 0, 5, 0])).toEqual({ testnet: false, workchain: 0, account: 5 });
+        expect(() => parseAccountPath([44, 607, 0, 1, 5, 0])).toThrow('Path is not a standard account path');
+    });
+
+    it('should report invalid segments', () => {
+        expect(() => validatePath('m/44\'/607\'/0\'/0/0\'/0\'')).toThrow('Path segment 3 (\'0\') must be hardened');
+        expect(() => validatePath('m/44\'/607\'/x\'/0\'/0\'/0\'')).toThrow('Path segment 2 (\'x\'\') is not a number');
+        expect(() => validatePath('m/44\'/607\'/0\'/0\'/2147483648\'/0\'')).toThrow('Path segment 4 (\'2147483648\'\') must be under 0x80000000');
+        expect(() => validatePath('m/45\'/607\'/0\'/0\'/0\'/0\'')).toThrow('First element of a path must be 44');
+        expect(() => validatePath('m/44\'/607\'/0\'')).toThrow('Path is too short');
+        expect(() => validatePath([44, 607, 0, 0, 0.5, 0])).toThrow('All path elements must be non-negative integers');
+    });
+});
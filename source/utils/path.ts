@@ -0,0 +1,90 @@
+export type TonPath = number[] | string;
+
+export type TonAccountPath = {
+    testnet: boolean,
+    workchain: number,
+    account: number
+};
+
+const HARDENED = 0x80000000;
+
+/**
+ * Builds a path for an account, last element is reserved for alternative wallet contracts
+ */
+export function pathForAccount(testnet: boolean, workchain: number, account: number): number[] {
+    if (workchain !== 0 && workchain !== -1) {
+        throw Error('Workchain must be 0 or -1');
+    }
+    if (!Number.isInteger(account) || account < 0 || account >= HARDENED) {
+        throw Error('Account must be an integer between 0 and 0x7fffffff');
+    }
+    return [44, 607, testnet ? 1 : 0, workchain === -1 ? 255 : 0, account, 0];
+}
+
+/**
+ * Parses a path like m/44'/607'/0'/0'/0'/0', all elements must be hardened
+ */
+export function parsePath(path: string): number[] {
+    const segments = path.trim().split('/');
+    if (segments[0] === 'm') {
+        segments.shift();
+    }
+    const res = segments.map((s, i) => {
+        const m = /^(\d+)['h]$/.exec(s);
+        if (!m) {
+            if (/^\d+$/.test(s)) {
+                throw Error(`Path segment ${i} ('${s}') must be hardened`);
+            }
+            throw Error(`Path segment ${i} ('${s}') is not a number`);
+        }
+        const v = parseInt(m[1], 10);
+        if (v >= HARDENED) {
+            throw Error(`Path segment ${i} ('${s}') must be under 0x80000000`);
+        }
+        return v;
+    });
+    validatePath(res);
+    return res;
+}
+
+export function formatPath(path: number[]): string {
+    return ['m', ...path.map((v) => v + '\'')].join('/');
+}
+
+/**
+ * Decodes network, workchain and account from a path built with pathForAccount
+ */
+export function parseAccountPath(path: TonPath): TonAccountPath {
+    const p = validatePath(path);
+    if (p.length !== 6 || (p[2] !== 0 && p[2] !== 1) || (p[3] !== 0 && p[3] !== 255) || p[5] !== 0) {
+        throw Error('Path is not a standard account path');
+    }
+    return { testnet: p[2] === 1, workchain: p[3] === 255 ? -1 : 0, account: p[4] };
+}
+
+/**
+ * Checks that path can be used with the TON app and returns its elements
+ */
+export function validatePath(path: TonPath): number[] {
+    if (typeof path === 'string') {
+        return parsePath(path);
+    }
+    if (path.length < 6) {
+        throw Error('Path is too short');
+    }
+    if (path[0] !== 44) {
+        throw Error('First element of a path must be 44');
+    }
+    if (path[1] !== 607) {
+        throw Error('Second element of a path must be 607');
+    }
+    for (let p of path) {
+        if (!Number.isInteger(p) || p < 0) {
+            throw Error('All path elements must be non-negative integers');
+        }
+        if (p >= HARDENED) {
+            throw Error('All path elements must be under 0x80000000');
+        }
+    }
+    return path;
+}
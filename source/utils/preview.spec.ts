@@ -0,0 +1,78 @@
+import { Address, beginCell, toNano } from '@ton/core';
+import { getInit } from './getInit';
+import { previewSignData, previewTransaction } from './preview';
+
+const ADDRESS = Address.parse('EQBNVUFfKt2QgqKL5vZvnyP50wmniCFP2ASOKAE-g2noRDlR');
+
+describe('preview', () => {
+    it('should preview transfer with comment', () => {
+        const screens = previewTransaction({
+            to: ADDRESS,
+            sendMode: 3,
+            seqno: 1,
+            timeout: 1700000000,
+            bounce: false,
+            amount: toNano('1.5'),
+            payload: { type: 'comment', text: 'Hello' }
+        });
+        expect(screens).toEqual([
+            { type: 'title', text: 'Transfer TON' },
+            { type: 'field', field: 'to', label: 'To', value: ADDRESS.toString({ bounceable: false }) },
+            { type: 'field', field: 'amount', label: 'Amount', value: '1.5 TON' },
+            { type: 'field', field: 'comment', label: 'Comment', value: 'Hello' },
+            { type: 'confirm', text: 'Sign transaction' }
+        ]);
+    });
+
+    it('should preview multiple messages', () => {
+        const screens = previewTransaction({
+            seqno: 1,
+            timeout: 1700000000,
+            messages: [{
+                to: ADDRESS,
+                sendMode: 3,
+                bounce: true,
+                amount: toNano('0.1'),
+                stateInit: getInit(0, Buffer.alloc(32)),
+                payload: { type: 'jetton-transfer', queryId: null, amount: 1000n, destination: ADDRESS, responseDestination: ADDRESS, customPayload: null, forwardAmount: toNano('0.01'), forwardPayload: null }
+            }, {
+                to: ADDRESS,
+                sendMode: 3,
+                bounce: true,
+                amount: toNano('0.05'),
+                payload: { type: 'nft-transfer', queryId: null, newOwner: ADDRESS, responseDestination: ADDRESS, customPayload: null, forwardAmount: 0n, forwardPayload: null }
+            }, {
+                to: ADDRESS,
+                sendMode: 3,
+                bounce: true,
+                amount: 1n,
+                payload: { type: 'unsafe', message: beginCell().storeUint(1, 32).endCell() }
+            }]
+        });
+        expect(screens.filter((s) => s.type === 'warning').map((s) => s.type === 'warning' && [s.warning, s.message])).toEqual([['state-init', 0], ['blind-signing', 2]]);
+        expect(screens[screens.length - 1]).toEqual({ type: 'confirm', text: 'Sign 3 messages' });
+        expect(screens).toMatchSnapshot();
+    });
+
+    it('should reject invalid payloads', () => {
+        expect(() => previewTransaction({
+            to: ADDRESS,
+            sendMode: 3,
+            seqno: 1,
+            timeout: 1700000000,
+            bounce: true,
+            amount: 1n,
+            payload: { type: 'comment', text: 'a'.repeat(200) }
+        })).toThrow();
+    });
+
+    it('should preview sign data', () => {
+        expect(previewSignData({ type: 'text', text: 'Hello', domain: 'ton.org' })).toEqual([
+            { type: 'title', text: 'Sign message' },
+            { type: 'field', field: 'domain', label: 'Domain', value: 'ton.org' },
+            { type: 'field', field: 'message', label: 'Message', value: 'Hello' },
+            { type: 'confirm', text: 'Sign data' }
+        ]);
+        expect(previewSignData({ type: 'cell', schema: 'message#_ text:^Cell = Message;', cell: beginCell().endCell(), domain: 'ton.org' })[0]).toMatchObject({ type: 'warning', warning: 'blind-signing' });
+    });
+});
@@ -0,0 +1,182 @@
+import { Address, fromNano } from '@ton/core';
+import { SignDataRequest, TonPayloadFormat, TonTransactionMessage } from '../TonTransport';
+import { WalletVersion } from './getInit';
+import { assertValid, validateSignData, validateTransaction } from './validation';
+
+export type TonPreviewField =
+    | 'to'
+    | 'amount'
+    | 'comment'
+    | 'jetton-amount'
+    | 'jetton-destination'
+    | 'nft-new-owner'
+    | 'destination'
+    | 'response-destination'
+    | 'forward-amount'
+    | 'validator'
+    | 'dns-record'
+    | 'payload-hash'
+    | 'message'
+    | 'address'
+    | 'domain'
+    | 'data'
+    | 'data-hash'
+    | 'schema';
+
+export type TonPreviewWarning = 'state-init' | 'blind-signing';
+
+/**
+ * Single screen of the review on the device. Values are formatted the way the
+ * device shows them, `message` is the index of the message the screen belongs to.
+ */
+export type TonPreviewScreen =
+    | { type: 'title', text: string, message?: number }
+    | { type: 'field', field: TonPreviewField, label: string, value: string, message?: number }
+    | { type: 'warning', warning: TonPreviewWarning, text: string, message?: number }
+    | { type: 'confirm', text: string };
+
+function formatTon(amount: bigint) {
+    return `${fromNano(amount)} TON`;
+}
+
+function formatAddress(address: Address, bounceable: boolean) {
+    return address.toString({ bounceable, testOnly: false });
+}
+
+function payloadTitle(payload: TonPayloadFormat | undefined) {
+    switch (payload?.type) {
+        case 'jetton-transfer': return 'Transfer jetton';
+        case 'nft-transfer': return 'Transfer NFT';
+        case 'jetton-burn': return 'Burn jetton';
+        case 'change-dns-record': return 'Change DNS record';
+        case 'nft-prove-ownership': return 'Prove NFT ownership';
+        case 'excesses': return 'Return excesses';
+        case 'single-nominator-withdraw': return 'Withdraw from nominator';
+        case 'single-nominator-change-validator': return 'Change validator';
+        case 'tonstakers-deposit': return 'Deposit stake';
+        case 'tonstakers-withdraw': return 'Withdraw stake';
+        default: return 'Transfer TON';
+    }
+}
+
+function payloadFields(payload: TonPayloadFormat): { field: TonPreviewField, label: string, value: string }[] {
+    switch (payload.type) {
+        case 'comment':
+            return [{ field: 'comment', label: 'Comment', value: payload.text }];
+        case 'jetton-transfer':
+            // Device doesn't know jetton decimals, so amounts are shown in base units
+            return [
+                { field: 'jetton-amount', label: 'Jetton units', value: payload.amount.toString() },
+                { field: 'jetton-destination', label: 'Send jetton to', value: formatAddress(payload.destination, true) },
+                { field: 'forward-amount', label: 'Forward amount', value: formatTon(payload.forwardAmount) }
+            ];
+        case 'nft-transfer':
+            return [
+                { field: 'nft-new-owner', label: 'New owner', value: formatAddress(payload.newOwner, true) },
+                { field: 'forward-amount', label: 'Forward amount', value: formatTon(payload.forwardAmount) }
+            ];
+        case 'jetton-burn':
+            return [
+                { field: 'jetton-amount', label: 'Jetton units', value: payload.amount.toString() },
+                { field: 'response-destination', label: 'Send excess to', value: formatAddress(payload.responseDestination, true) }
+            ];
+        case 'change-dns-record':
+            return [{ field: 'dns-record', label: 'Record', value: payload.record.value === null ? `Delete ${payload.record.type}` : `Set ${payload.record.type}` }];
+        case 'nft-prove-ownership':
+            return [{ field: 'destination', label: 'Send proof to', value: formatAddress(payload.destination, true) }];
+        case 'single-nominator-withdraw':
+        case 'tonstakers-withdraw':
+            return [{ field: 'amount', label: 'Withdraw', value: formatTon(payload.amount) }];
+        case 'single-nominator-change-validator':
+            return [{ field: 'validator', label: 'New validator', value: formatAddress(payload.address, true) }];
+        case 'unsafe':
+            return [{ field: 'payload-hash', label: 'Payload hash', value: payload.message.hash().toString('hex') }];
+        default:
+            return [];
+    }
+}
+
+function previewMessage(m: TonTransactionMessage, message: number | undefined): TonPreviewScreen[] {
+    const screens: TonPreviewScreen[] = [];
+    if (m.payload?.type === 'unsafe') {
+        screens.push({ type: 'warning', warning: 'blind-signing', text: 'This message can\'t be decoded, sign it only if you trust the source', message });
+    }
+    screens.push({ type: 'title', text: payloadTitle(m.payload), message });
+    screens.push({ type: 'field', field: 'to', label: 'To', value: formatAddress(m.to, m.bounce), message });
+    screens.push({ type: 'field', field: 'amount', label: 'Amount', value: formatTon(m.amount), message });
+    if (m.payload) {
+        for (const f of payloadFields(m.payload)) {
+            screens.push({ type: 'field', ...f, message });
+        }
+    }
+    if (m.stateInit) {
+        screens.push({ type: 'warning', warning: 'state-init', text: 'Transaction deploys a contract', message });
+    }
+    return screens;
+}
+
+/**
+ * Screens that the device shows when signing a transaction, in order. Accepts the same
+ * transaction as `signTransaction` or `signMultiTransaction`. Throws `ValidationError` for requests that can't be signed.
+ */
+export function previewTransaction(
+    transaction:
+        | { seqno: number, timeout: number, messages: TonTransactionMessage[] }
+        | ({ seqno: number, timeout: number } & TonTransactionMessage),
+    opts?: { walletVersion?: WalletVersion }
+): TonPreviewScreen[] {
+    assertValid(validateTransaction(transaction, opts));
+    const messages = 'messages' in transaction ? transaction.messages : [transaction];
+    const screens: TonPreviewScreen[] = [];
+    messages.forEach((m, i) => {
+        screens.push(...previewMessage(m, messages.length > 1 ? i : undefined));
+    });
+    screens.push({ type: 'confirm', text: messages.length > 1 ? `Sign ${messages.length} messages` : 'Sign transaction' });
+    return screens;
+}
+
+/**
+ * Screens that the device shows when signing data with `signData`, in order
+ */
+export function previewSignData(req: SignDataRequest): TonPreviewScreen[] {
+    assertValid(validateSignData(req));
+    const screens: TonPreviewScreen[] = [];
+    switch (req.type) {
+        case 'plaintext':
+            screens.push({ type: 'title', text: 'Sign message' });
+            screens.push({ type: 'field', field: 'message', label: 'Message', value: req.text });
+            break;
+        case 'app-data':
+            screens.push({ type: 'warning', warning: 'blind-signing', text: 'This data can\'t be decoded, sign it only if you trust the source' });
+            screens.push({ type: 'title', text: 'Sign app data' });
+            if (req.address) {
+                screens.push({ type: 'field', field: 'address', label: 'Address', value: formatAddress(req.address, true) });
+            }
+            if (req.domain !== undefined) {
+                screens.push({ type: 'field', field: 'domain', label: 'Domain', value: req.domain });
+            }
+            screens.push({ type: 'field', field: 'data-hash', label: 'Data hash', value: req.data.hash().toString('hex') });
+            break;
+        case 'text':
+            screens.push({ type: 'title', text: 'Sign message' });
+            screens.push({ type: 'field', field: 'domain', label: 'Domain', value: req.domain });
+            screens.push({ type: 'field', field: 'message', label: 'Message', value: req.text });
+            break;
+        case 'binary':
+            screens.push({ type: 'title', text: 'Sign data' });
+            screens.push({ type: 'field', field: 'domain', label: 'Domain', value: req.domain });
+            screens.push({ type: 'field', field: 'data', label: 'Data', value: req.bytes.toString('hex') });
+            break;
+        case 'cell':
+            screens.push({ type: 'warning', warning: 'blind-signing', text: 'This data can\'t be decoded, sign it only if you trust the source' });
+            screens.push({ type: 'title', text: 'Sign data' });
+            screens.push({ type: 'field', field: 'domain', label: 'Domain', value: req.domain });
+            screens.push({ type: 'field', field: 'schema', label: 'Schema', value: req.schema });
+            screens.push({ type: 'field', field: 'data-hash', label: 'Data hash', value: req.cell.hash().toString('hex') });
+            break;
+        default:
+            throw new Error(`Sign data request type '${(req as any).type}' not supported`);
+    }
+    screens.push({ type: 'confirm', text: 'Sign data' });
+    return screens;
+}
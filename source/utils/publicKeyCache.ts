@@ -0,0 +1,75 @@
+import { formatPath } from './path';
+
+/**
+ * Storage for public keys keyed by path string, implement it to persist keys between sessions
+ */
+export interface PublicKeyStore {
+    get(path: string): Promise<Buffer | null> | Buffer | null;
+    set(path: string, publicKey: Buffer): Promise<void> | void;
+    clear(): Promise<void> | void;
+}
+
+export class MemoryPublicKeyStore implements PublicKeyStore {
+    #keys = new Map<string, Buffer>();
+
+    get(path: string) {
+        return this.#keys.get(path) ?? null;
+    }
+
+    set(path: string, publicKey: Buffer) {
+        this.#keys.set(path, publicKey);
+    }
+
+    clear() {
+        this.#keys.clear();
+    }
+}
+
+// Key of this path identifies the device seed
+const FINGERPRINT_PATH = [44, 607, 0, 0, 0, 0];
+
+export class PublicKeyCache {
+    readonly store: PublicKeyStore;
+    #verified = false;
+
+    constructor(store: PublicKeyStore) {
+        this.store = store;
+    }
+
+    /**
+     * Returns cached key for a path or fetches it. Once per session the key of a fixed path is
+     * fetched from the device and compared with the stored one to detect another device or seed.
+     */
+    async get(path: number[], fetch: (path: number[]) => Promise<Buffer>): Promise<Buffer> {
+        if (!this.#verified) {
+            await this.put(FINGERPRINT_PATH, await fetch(FINGERPRINT_PATH));
+            this.#verified = true;
+        }
+        const cached = await this.store.get(formatPath(path));
+        if (cached) {
+            return cached;
+        }
+        const publicKey = await fetch(path);
+        await this.put(path, publicKey);
+        return publicKey;
+    }
+
+    /**
+     * Records a key received from the device, a different key for a known path drops all entries
+     */
+    async put(path: number[], publicKey: Buffer) {
+        const key = formatPath(path);
+        const cached = await this.store.get(key);
+        if (cached && !cached.equals(publicKey)) {
+            await this.store.clear();
+        }
+        await this.store.set(key, publicKey);
+    }
+
+    /**
+     * Device was locked or app was closed, so the seed has to be checked again
+     */
+    invalidateSession() {
+        this.#verified = false;
+    }
+}
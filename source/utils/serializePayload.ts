@@ -0,0 +1,291 @@
+import { beginCell, Cell } from '@ton/core';
+import { sha256_sync } from '@ton/crypto';
+import { TonDNSRecord, TonPayloadFormat } from '../TonTransport';
+import { writeAddress, writeCellRef, writeUint16, writeUint32, writeUint64, writeUint8, writeVarUInt } from './ledgerWriter';
+
+function writeQueryId(queryId: bigint | null) {
+    if (queryId !== null) {
+        return Buffer.concat([writeUint8(1), writeUint64(queryId)]);
+    } else {
+        return writeUint8(0);
+    }
+}
+
+function writeHints(type: number, d: Buffer) {
+    return Buffer.concat([
+        writeUint8(1),
+        writeUint32(type),
+        writeUint16(d.length),
+        d
+    ]);
+}
+
+//
+// TON DNS records
+//
+
+export function dnsRecordKey(type: TonDNSRecord['type']) {
+    return sha256_sync(type);
+}
+
+function serializeDNSRecord(record: TonDNSRecord): { value: Cell | null, d: Buffer } {
+    switch (record.type) {
+        case 'wallet': {
+            if (!record.value) {
+                return { value: null, d: Buffer.concat([writeUint8(0x00), writeUint8(0)]) };
+            }
+            let b = beginCell()
+                .storeUint(0x9fd3, 16) // dns_smc_address
+                .storeAddress(record.value.address)
+                .storeUint(record.value.isWallet ? 1 : 0, 8);
+            if (record.value.isWallet) {
+                b = b
+                    .storeBit(1)
+                    .storeUint(0x2177, 16) // cap_is_wallet
+                    .storeBit(0);
+            }
+            return {
+                value: b.endCell(),
+                d: Buffer.concat([writeUint8(0x00), writeUint8(1), writeAddress(record.value.address), writeUint8(record.value.isWallet ? 1 : 0)])
+            };
+        }
+        case 'site': {
+            if (!record.value) {
+                return { value: null, d: Buffer.concat([writeUint8(0x01), writeUint8(0)]) };
+            }
+            if (record.value.adnlAddress.length !== 32) {
+                throw new Error('ADNL address must be 32 bytes long');
+            }
+            return {
+                value: beginCell()
+                    .storeUint(0xad01, 16) // dns_adnl_address
+                    .storeBuffer(record.value.adnlAddress)
+                    .storeUint(0, 8)
+                    .endCell(),
+                d: Buffer.concat([writeUint8(0x01), writeUint8(1), record.value.adnlAddress])
+            };
+        }
+        case 'storage': {
+            if (!record.value) {
+                return { value: null, d: Buffer.concat([writeUint8(0x02), writeUint8(0)]) };
+            }
+            if (record.value.bagId.length !== 32) {
+                throw new Error('Bag ID must be 32 bytes long');
+            }
+            return {
+                value: beginCell()
+                    .storeUint(0x7473, 16) // dns_storage_address
+                    .storeBuffer(record.value.bagId)
+                    .endCell(),
+                d: Buffer.concat([writeUint8(0x02), writeUint8(1), record.value.bagId])
+            };
+        }
+    }
+}
+
+//
+// Payloads
+//
+
+export function serializePayload(payload: TonPayloadFormat): { cell: Cell, hints: Buffer } {
+    let cell: Cell;
+    let hints: Buffer;
+    switch (payload.type) {
+        case 'comment': {
+            hints = Buffer.concat([
+                writeUint8(1),
+                writeUint32(0x00),
+                writeUint16(Buffer.from(payload.text).length),
+                Buffer.from(payload.text)
+            ]);
+            cell = beginCell()
+                .storeUint(0, 32)
+                .storeBuffer(Buffer.from(payload.text))
+                .endCell()
+            break;
+        }
+        case 'jetton-transfer':
+        case 'nft-transfer': {
+            hints = Buffer.concat([
+                writeUint8(1),
+                writeUint32(payload.type === 'jetton-transfer' ? 0x01 : 0x02)
+            ]);
+
+            let b = beginCell()
+                .storeUint(payload.type === 'jetton-transfer' ? 0x0f8a7ea5 : 0x5fcc3d14, 32);
+            let d = Buffer.alloc(0);
+
+            if (payload.queryId !== null) {
+                d = Buffer.concat([d, writeUint8(1), writeUint64(payload.queryId)]);
+                b = b.storeUint(payload.queryId, 64);
+            } else {
+                d = Buffer.concat([d, writeUint8(0)]);
+                b = b.storeUint(0, 64);
+            }
+
+            if (payload.type === 'jetton-transfer') {
+                d = Buffer.concat([d, writeVarUInt(payload.amount)]);
+                b = b.storeCoins(payload.amount);
+
+                d = Buffer.concat([d, writeAddress(payload.destination)]);
+                b = b.storeAddress(payload.destination);
+            } else {
+                d = Buffer.concat([d, writeAddress(payload.newOwner)]);
+                b = b.storeAddress(payload.newOwner);
+            }
+
+            d = Buffer.concat([d, writeAddress(payload.responseDestination)]);
+            b = b.storeAddress(payload.responseDestination);
+
+            if (payload.customPayload !== null) {
+                d = Buffer.concat([d, writeUint8(1), writeCellRef(payload.customPayload)]);
+                b = b.storeMaybeRef(payload.customPayload);
+            } else {
+                d = Buffer.concat([d, writeUint8(0)]);
+                b = b.storeMaybeRef(payload.customPayload);
+            }
+
+            d = Buffer.concat([d, writeVarUInt(payload.forwardAmount)]);
+            b = b.storeCoins(payload.forwardAmount);
+
+            if (payload.forwardPayload !== null) {
+                d = Buffer.concat([d, writeUint8(1), writeCellRef(payload.forwardPayload)]);
+                b = b.storeMaybeRef(payload.forwardPayload);
+            } else {
+                d = Buffer.concat([d, writeUint8(0)]);
+                b = b.storeMaybeRef(payload.forwardPayload);
+            }
+
+            cell = b.endCell();
+            hints = Buffer.concat([
+                hints,
+                writeUint16(d.length),
+                d
+            ])
+            break;
+        }
+        case 'jetton-burn': {
+            cell = beginCell()
+                .storeUint(0x595f07bc, 32)
+                .storeUint(payload.queryId ?? 0n, 64)
+                .storeCoins(payload.amount)
+                .storeAddress(payload.responseDestination)
+                .storeMaybeRef(payload.customPayload)
+                .endCell();
+            hints = writeHints(0x03, Buffer.concat([
+                writeQueryId(payload.queryId),
+                writeVarUInt(payload.amount),
+                writeAddress(payload.responseDestination),
+                payload.customPayload !== null ? Buffer.concat([writeUint8(1), writeCellRef(payload.customPayload)]) : writeUint8(0)
+            ]));
+            break;
+        }
+        case 'change-dns-record': {
+            const record = serializeDNSRecord(payload.record);
+            cell = beginCell()
+                .storeUint(0x4eb1f0f9, 32)
+                .storeUint(payload.queryId ?? 0n, 64)
+                .storeBuffer(dnsRecordKey(payload.record.type))
+                .storeMaybeRef(record.value)
+                .endCell();
+            hints = writeHints(0x09, Buffer.concat([
+                writeQueryId(payload.queryId),
+                record.d
+            ]));
+            break;
+        }
+        case 'nft-prove-ownership': {
+            cell = beginCell()
+                .storeUint(0x04ded148, 32)
+                .storeUint(payload.queryId ?? 0n, 64)
+                .storeAddress(payload.destination)
+                .storeRef(payload.forwardPayload)
+                .storeBit(payload.withContent)
+                .endCell();
+            hints = writeHints(0x0b, Buffer.concat([
+                writeQueryId(payload.queryId),
+                writeAddress(payload.destination),
+                writeCellRef(payload.forwardPayload),
+                writeUint8(payload.withContent ? 1 : 0)
+            ]));
+            break;
+        }
+        case 'excesses': {
+            cell = beginCell()
+                .storeUint(0xd53276db, 32)
+                .storeUint(payload.queryId ?? 0n, 64)
+                .endCell();
+            hints = writeHints(0x0c, writeQueryId(payload.queryId));
+            break;
+        }
+        case 'single-nominator-withdraw': {
+            cell = beginCell()
+                .storeUint(0x1000, 32)
+                .storeUint(payload.queryId ?? 0n, 64)
+                .storeCoins(payload.amount)
+                .endCell();
+            hints = writeHints(0x05, Buffer.concat([
+                writeQueryId(payload.queryId),
+                writeVarUInt(payload.amount)
+            ]));
+            break;
+        }
+        case 'single-nominator-change-validator': {
+            cell = beginCell()
+                .storeUint(0x1001, 32)
+                .storeUint(payload.queryId ?? 0n, 64)
+                .storeAddress(payload.address)
+                .endCell();
+            hints = writeHints(0x06, Buffer.concat([
+                writeQueryId(payload.queryId),
+                writeAddress(payload.address)
+            ]));
+            break;
+        }
+        case 'tonstakers-deposit': {
+            let b = beginCell()
+                .storeUint(0x47d54391, 32)
+                .storeUint(payload.queryId ?? 0n, 64);
+            if (payload.appId !== null) {
+                b = b.storeUint(payload.appId, 64);
+            }
+            cell = b.endCell();
+            hints = writeHints(0x07, Buffer.concat([
+                writeQueryId(payload.queryId),
+                payload.appId !== null ? Buffer.concat([writeUint8(1), writeUint64(payload.appId)]) : writeUint8(0)
+            ]));
+            break;
+        }
+        case 'tonstakers-withdraw': {
+            // Unstaking is a burn of pool jettons with withdrawal options in the custom payload
+            cell = beginCell()
+                .storeUint(0x595f07bc, 32)
+                .storeUint(payload.queryId ?? 0n, 64)
+                .storeCoins(payload.amount)
+                .storeAddress(payload.responseDestination)
+                .storeMaybeRef(beginCell()
+                    .storeBit(payload.waitTillRoundEnd)
+                    .storeBit(payload.fillOrKill)
+                    .endCell())
+                .endCell();
+            hints = writeHints(0x0d, Buffer.concat([
+                writeQueryId(payload.queryId),
+                writeVarUInt(payload.amount),
+                writeAddress(payload.responseDestination),
+                writeUint8((payload.waitTillRoundEnd ? 0x01 : 0x00) | (payload.fillOrKill ? 0x02 : 0x00))
+            ]));
+            break;
+        }
+        case 'unsafe': {
+            // No hints, device shows only the payload hash
+            cell = payload.message;
+            hints = writeUint8(0);
+            break;
+        }
+        default: {
+            throw new Error(`Payload type '${(payload as any).type}' not supported`);
+        }
+    }
+
+    return { cell, hints };
+}
@@ -0,0 +1,218 @@
+import { beginCell, Cell, SendMode, storeStateInit } from '@ton/core';
+import { TonTransactionMessage } from '../TonTransport';
+import { DEFAULT_SUBWALLET_ID, WalletVersion } from './getInit';
+import { writeAddress, writeUint16, writeUint32, writeUint8, writeVarUInt } from './ledgerWriter';
+import { serializePayload } from './serializePayload';
+
+function serializeMessage(message: TonTransactionMessage): { pkg: Buffer, order: Cell } {
+    let pkg = Buffer.concat([
+        writeVarUInt(message.amount),
+        writeAddress(message.to),
+        writeUint8(message.bounce ? 1 : 0),
+        writeUint8(message.sendMode),
+    ]);
+
+    //
+    // State init
+    //
+
+    let stateInit: Cell | null = null;
+    if (message.stateInit) {
+        stateInit = beginCell()
+            .store(storeStateInit(message.stateInit))
+            .endCell();
+        pkg = Buffer.concat([
+            pkg,
+            writeUint8(1),
+            writeUint16(stateInit.depth()),
+            stateInit.hash()
+        ])
+    } else {
+        pkg = Buffer.concat([
+            pkg,
+            writeUint8(0)
+        ]);
+    }
+
+    //
+    // Payload
+    //
+
+    let payload: Cell | null = null;
+    let hints: Buffer = Buffer.concat([writeUint8(0)]);
+    if (message.payload) {
+        const serialized = serializePayload(message.payload);
+        payload = serialized.cell;
+        hints = serialized.hints;
+    }
+
+    //
+    // Serialize payload
+    //
+
+    if (payload) {
+        pkg = Buffer.concat([
+            pkg,
+            writeUint8(1),
+            writeUint16(payload.depth()),
+            payload.hash(),
+            hints
+        ])
+    } else {
+        pkg = Buffer.concat([
+            pkg,
+            writeUint8(0),
+            writeUint8(0)
+        ]);
+    }
+
+    //
+    // Internal message
+    //
+
+    let orderBuilder = beginCell()
+        .storeBit(0)
+        .storeBit(true)
+        .storeBit(message.bounce)
+        .storeBit(false)
+        .storeAddress(null)
+        .storeAddress(message.to)
+        .storeCoins(message.amount)
+        .storeBit(false)
+        .storeCoins(0)
+        .storeCoins(0)
+        .storeUint(0, 64)
+        .storeUint(0, 32)
+
+    // State Init
+    if (stateInit) {
+        orderBuilder = orderBuilder
+            .storeBit(true)
+            .storeBit(true) // Always in reference
+            .storeRef(stateInit)
+    } else {
+        orderBuilder = orderBuilder
+            .storeBit(false);
+    }
+
+    // Payload
+    if (payload) {
+        orderBuilder = orderBuilder
+            .storeBit(true) // Always in reference
+            .storeRef(payload)
+    } else {
+        orderBuilder = orderBuilder
+            .storeBit(false)
+    }
+
+    return { pkg, order: orderBuilder.endCell() };
+}
+
+/**
+ * Wallet type of wallet specifiers, 0x01 is Wallet V3R2 in TON app 2.1.0. V5R1 type 0x02 is
+ * an experimental layout that only TonEmulatorTransport implements.
+ */
+export function walletVersionCode(walletVersion: WalletVersion) {
+    switch (walletVersion) {
+        case 'v4': return 0x00;
+        case 'v5r1': return 0x02;
+    }
+}
+
+/**
+ * Serializes a transfer into the package for the device and the unsigned body
+ * of the wallet's external message, which hash is signed
+ */
+export function serializeTransfer(
+    transaction: { seqno: number, timeout: number, messages: TonTransactionMessage[] },
+    walletVersion: WalletVersion,
+    walletId: number
+): { pkg: Buffer, transfer: Cell } {
+    // Tags 0x00 and 0x01 are of TON app 2.1.0: the default V4 wallet, or a V4 wallet id with
+    // wallet flags. Tag 0x02 for V5R1 wallets and multiple messages is an experimental layout,
+    // released apps reject it as an unknown tag, so callers check capabilities before sending it.
+    let header: Buffer;
+    if (walletVersion === 'v4' && transaction.messages.length === 1) {
+        header = walletId === DEFAULT_SUBWALLET_ID
+            ? writeUint8(0x00)
+            : Buffer.concat([writeUint8(0x01), writeUint32(walletId), writeUint8(0x01 /* Include wallet op */)]);
+    } else {
+        header = Buffer.concat([
+            writeUint8(0x02),
+            writeUint8(walletVersionCode(walletVersion)),
+            writeUint32(walletId),
+            writeUint8(transaction.messages.length)
+        ]);
+    }
+    let pkg = Buffer.concat([
+        header,
+        writeUint32(transaction.seqno),
+        writeUint32(transaction.timeout),
+    ]);
+
+    //
+    // Messages
+    //
+
+    const orders: { sendMode: SendMode, order: Cell }[] = [];
+    for (let message of transaction.messages) {
+        const serialized = serializeMessage(message);
+        pkg = Buffer.concat([pkg, serialized.pkg]);
+        orders.push({ sendMode: message.sendMode, order: serialized.order });
+    }
+
+    //
+    // Transfer message
+    //
+
+    let transfer: Cell;
+    if (walletVersion === 'v5r1') {
+        let actions = beginCell().endCell();
+        for (let o of orders) {
+            actions = beginCell()
+                .storeRef(actions) // Previous actions
+                .storeUint(0x0ec3c86d, 32) // action_send_msg
+                .storeUint(o.sendMode, 8)
+                .storeRef(o.order)
+                .endCell();
+        }
+        transfer = beginCell()
+            .storeUint(0x7369676e, 32) // signed_external
+            .storeUint(walletId, 32)
+            .storeUint(transaction.timeout, 32)
+            .storeUint(transaction.seqno, 32)
+            .storeMaybeRef(actions)
+            .storeBit(0) // No extended actions
+            .endCell();
+    } else {
+        let b = beginCell()
+            .storeUint(walletId, 32)
+            .storeUint(transaction.timeout, 32)
+            .storeUint(transaction.seqno, 32)
+            .storeUint(0, 8);
+        for (let o of orders) {
+            b = b
+                .storeUint(o.sendMode, 8)
+                .storeRef(o.order);
+        }
+        transfer = b.endCell();
+    }
+
+    return { pkg, transfer };
+}
+
+/**
+ * Adds a signature to the unsigned transfer, V5 wallets expect it at the end
+ */
+export function packSignedTransfer(transfer: Cell, signature: Buffer, walletVersion: WalletVersion): Cell {
+    if (walletVersion === 'v5r1') {
+        return beginCell()
+            .storeSlice(transfer.beginParse())
+            .storeBuffer(signature)
+            .endCell();
+    }
+    return beginCell()
+        .storeBuffer(signature)
+        .storeSlice(transfer.beginParse())
+        .endCell();
+}
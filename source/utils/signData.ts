@@ -0,0 +1,193 @@
+import { Address, beginCell, Cell } from '@ton/core';
+import { sha256_sync, signVerify } from '@ton/crypto';
+import { SignDataRequest } from '../TonTransport';
+import { writeAddress, writeCellRef, writeUint16, writeUint32, writeUint64, writeUint8 } from './ledgerWriter';
+
+// Schemas of the device request
+const SCHEMA_PLAINTEXT = 0x754bf91b;
+const SCHEMA_APP_DATA = 0x54b58535;
+const SCHEMA_TEXT = 0x00747874; // 'txt'
+const SCHEMA_BINARY = 0x0062696e; // 'bin'
+const SCHEMA_CELL = 0x75569022; // Prefix of the TON Connect sign data cell
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let c = i;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[i] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(data: Buffer) {
+    let crc = 0xffffffff;
+    for (const b of data) {
+        crc = CRC32_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Stores bytes in snake format like storeStringTail: 127 bytes per cell, the rest in a reference
+ */
+export function bytesCell(data: Buffer): Cell {
+    const b = beginCell().storeBuffer(data.subarray(0, 127));
+    if (data.length > 127) {
+        b.storeRef(bytesCell(data.subarray(127)));
+    }
+    return b.endCell();
+}
+
+function encodeDomain(domain: string) {
+    // Reversed labels, each terminated by a zero byte like in DNS
+    return Buffer.concat(domain.split('.').reverse().map((p) => Buffer.concat([Buffer.from(p, 'ascii'), writeUint8(0)])));
+}
+
+/**
+ * Serializes a sign data request for the device.
+ * Returns the cell to return to the caller, the hash that the device reports and the message that is signed.
+ */
+export function serializeSignData(req: SignDataRequest, timestamp: number, address: Address | null): { data: Buffer, cell: Cell, hash: Buffer, message: Buffer } {
+    switch (req.type) {
+        case 'plaintext': {
+            const cell = beginCell().storeStringTail(req.text).endCell();
+            const commonPart = Buffer.concat([writeUint32(SCHEMA_PLAINTEXT), writeUint64(BigInt(timestamp))]);
+            return {
+                data: Buffer.concat([commonPart, Buffer.from(req.text, 'ascii')]),
+                cell,
+                hash: cell.hash(),
+                message: Buffer.concat([commonPart, cell.hash()])
+            };
+        }
+        case 'app-data': {
+            if (req.address === undefined && req.domain === undefined) {
+                throw new Error('At least one of `address` and `domain` must be set when using \'app-data\' request');
+            }
+            let b = beginCell();
+            let dp: Buffer[] = [];
+
+            if (req.address !== undefined) {
+                b.storeBit(1);
+                b.storeAddress(req.address);
+                dp.push(writeUint8(1), writeAddress(req.address));
+            } else {
+                b.storeBit(0);
+                dp.push(writeUint8(0));
+            }
+
+            if (req.domain !== undefined) {
+                b.storeBit(1);
+                b.storeRef(beginCell().storeBuffer(encodeDomain(req.domain)));
+                const db = Buffer.from(req.domain, 'ascii');
+                dp.push(writeUint8(1), writeUint8(db.length), db);
+            } else {
+                b.storeBit(0);
+                dp.push(writeUint8(0));
+            }
+
+            b.storeRef(req.data);
+            dp.push(writeCellRef(req.data));
+
+            if (req.ext !== undefined) {
+                b.storeBit(1);
+                b.storeRef(req.ext);
+                dp.push(writeUint8(1), writeCellRef(req.ext));
+            } else {
+                b.storeBit(0);
+                dp.push(writeUint8(0));
+            }
+
+            const cell = b.endCell();
+            const commonPart = Buffer.concat([writeUint32(SCHEMA_APP_DATA), writeUint64(BigInt(timestamp))]);
+            return {
+                data: Buffer.concat([commonPart, ...dp]),
+                cell,
+                hash: cell.hash(),
+                message: Buffer.concat([commonPart, cell.hash()])
+            };
+        }
+        case 'text':
+        case 'binary':
+        case 'cell': {
+            if (!address) {
+                throw new Error(`Address of the wallet is required for '${req.type}' request`);
+            }
+            const domain = Buffer.from(req.domain, 'ascii');
+            const header = Buffer.concat([
+                writeUint64(BigInt(timestamp)),
+                writeAddress(address),
+                writeUint8(domain.length),
+                domain
+            ]);
+
+            if (req.type === 'cell') {
+                // Cell payloads are signed by the hash of the TON Connect sign data cell
+                const schemaHash = crc32(Buffer.from(req.schema, 'utf-8'));
+                const cell = beginCell()
+                    .storeUint(SCHEMA_CELL, 32)
+                    .storeUint(schemaHash, 32)
+                    .storeUint(timestamp, 64)
+                    .storeAddress(address)
+                    .storeStringRefTail(encodeDomain(req.domain).toString('ascii'))
+                    .storeRef(req.cell)
+                    .endCell();
+                return {
+                    data: Buffer.concat([writeUint32(SCHEMA_CELL), header, writeUint32(schemaHash), writeCellRef(req.cell)]),
+                    cell,
+                    hash: cell.hash(),
+                    message: cell.hash()
+                };
+            }
+
+            // Text and binary payloads are signed by the hash of the TON Connect sign data message
+            const payload = req.type === 'text' ? Buffer.from(req.text, 'utf-8') : req.bytes;
+            const wc = Buffer.alloc(4);
+            wc.writeInt32BE(address.workChain);
+            const ts = Buffer.alloc(8);
+            ts.writeBigUInt64BE(BigInt(timestamp));
+            const hash = sha256_sync(Buffer.concat([
+                Buffer.from([0xff, 0xff]),
+                Buffer.from('ton-connect/sign-data/'),
+                wc,
+                address.hash,
+                writeUint32(domain.length),
+                domain,
+                ts,
+                Buffer.from(req.type === 'text' ? 'txt' : 'bin'),
+                writeUint32(payload.length),
+                payload
+            ]));
+            return {
+                data: Buffer.concat([writeUint32(req.type === 'text' ? SCHEMA_TEXT : SCHEMA_BINARY), header, writeUint16(payload.length), payload]),
+                cell: bytesCell(payload),
+                hash,
+                message: hash
+            };
+        }
+        default: {
+            throw new Error(`Sign data request type '${(req as any).type}' not supported`);
+        }
+    }
+}
+
+/**
+ * Verifies a result of signData. Address of the signing wallet is required for
+ * 'text', 'binary' and 'cell' requests since they are bound to it.
+ */
+export function verifySignData(args: {
+    publicKey: Buffer,
+    request: SignDataRequest,
+    signature: Buffer,
+    cell: Cell,
+    timestamp: number,
+    address?: Address
+}): boolean {
+    const expected = serializeSignData(args.request, args.timestamp, args.address ?? null);
+    if (!expected.cell.hash().equals(args.cell.hash())) {
+        return false;
+    }
+    return args.signature.length === 64 && signVerify(expected.message, args.signature, args.publicKey);
+}
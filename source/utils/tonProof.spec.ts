@@ -0,0 +1,37 @@
+import { Address, contractAddress } from '@ton/core';
+import { keyPairFromSeed, sign } from '@ton/crypto';
+import { getInit } from './getInit';
+import { createTonProofReply, tonProofHash, verifyTonProof } from './tonProof';
+
+const KEY = keyPairFromSeed(Buffer.alloc(32, 1));
+const OTHER = keyPairFromSeed(Buffer.alloc(32, 2));
+const NOW = 1700000000;
+
+function reply(opts?: { domain?: string, timestamp?: number, key?: typeof KEY }) {
+    const domain = opts?.domain ?? 'ton.org';
+    const timestamp = opts?.timestamp ?? NOW;
+    const address = contractAddress(0, getInit(0, KEY.publicKey));
+    const signature = sign(tonProofHash(address, domain, timestamp, 'payload'), (opts?.key ?? KEY).secretKey);
+    return createTonProofReply({ publicKey: KEY.publicKey, signature, domain, timestamp, payload: 'payload' });
+}
+
+describe('tonProof', () => {
+    it('should verify valid proofs', () => {
+        const res = verifyTonProof(reply(), { allowedDomains: ['ton.org'], now: NOW });
+        expect(res.valid).toBe(true);
+        expect(res.valid && res.publicKey.equals(KEY.publicKey)).toBe(true);
+        expect(res.valid && res.address.equals(contractAddress(0, getInit(0, KEY.publicKey)))).toBe(true);
+    });
+
+    it('should reject invalid proofs', () => {
+        const opts = { allowedDomains: ['ton.org'], now: NOW };
+        expect(verifyTonProof(reply({ domain: 'evil.org' }), opts).reason).toBe('Domain \'evil.org\' is not allowed');
+        expect(verifyTonProof(reply({ timestamp: NOW - 16 * 60 }), opts).reason).toBe('Proof timestamp is not fresh');
+        expect(verifyTonProof(reply({ key: OTHER }), opts).reason).toBe('Signature is invalid');
+
+        const r = reply();
+        expect(verifyTonProof({ ...r, account: { ...r.account, publicKey: OTHER.publicKey.toString('hex') } }, opts).reason).toBe('Public key doesn\'t match the state init');
+        expect(verifyTonProof({ ...r, account: { ...r.account, address: Address.parse('EQBNVUFfKt2QgqKL5vZvnyP50wmniCFP2ASOKAE-g2noRDlR').toRawString() } }, opts).reason).toBe('State init doesn\'t match the address');
+        expect(verifyTonProof({ ...r, proof: { ...r.proof.proof, domain: { lengthBytes: 3, value: 'ton.org' } } }, opts).reason).toBe('Domain length doesn\'t match its value');
+    });
+});
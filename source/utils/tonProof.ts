@@ -0,0 +1,145 @@
+import { Address, beginCell, Cell, contractAddress, loadStateInit, storeStateInit } from '@ton/core';
+import { sha256_sync, signVerify } from '@ton/crypto';
+import { getInit, parseInit, WalletVersion } from './getInit';
+
+export type TonConnectAccount = {
+    address: string,
+    chain: '-239' | '-3',
+    walletStateInit: string,
+    publicKey?: string
+};
+
+export type TonProofItemReply = {
+    name: 'ton_proof',
+    proof: {
+        timestamp: number,
+        domain: { lengthBytes: number, value: string },
+        payload: string,
+        signature: string
+    }
+};
+
+export type TonProofVerification =
+    | { valid: true, address: Address, publicKey: Buffer, walletVersion: WalletVersion, reason?: undefined }
+    | { valid: false, reason: string };
+
+/**
+ * Hash that is signed for a ton_proof, see TON Connect specification
+ */
+export function tonProofHash(address: Address, domain: string, timestamp: number, payload: string) {
+    const wc = Buffer.alloc(4);
+    wc.writeInt32BE(address.workChain);
+    const domainBuf = Buffer.from(domain, 'utf-8');
+    const domainLength = Buffer.alloc(4);
+    domainLength.writeUInt32LE(domainBuf.length);
+    const ts = Buffer.alloc(8);
+    ts.writeBigUInt64LE(BigInt(timestamp));
+    const message = sha256_sync(Buffer.concat([
+        Buffer.from('ton-proof-item-v2/'),
+        wc,
+        address.hash,
+        domainLength,
+        domainBuf,
+        ts,
+        Buffer.from(payload, 'utf-8')
+    ]));
+    return sha256_sync(Buffer.concat([
+        Buffer.from([0xff, 0xff]),
+        Buffer.from('ton-connect'),
+        message
+    ]));
+}
+
+export function createTonProofReply(args: {
+    publicKey: Buffer,
+    signature: Buffer,
+    domain: string,
+    timestamp: number,
+    payload: string,
+    chain?: number,
+    testOnly?: boolean,
+    walletVersion?: WalletVersion,
+    subwalletId?: number
+}): { account: TonConnectAccount, proof: TonProofItemReply } {
+    const chain = args.chain ?? 0;
+    const init = getInit(chain, args.publicKey, args.walletVersion, args.subwalletId, args.testOnly);
+    const address = contractAddress(chain, init);
+    return {
+        account: {
+            address: address.toRawString(),
+            chain: args.testOnly ? '-3' : '-239',
+            walletStateInit: beginCell().store(storeStateInit(init)).endCell().toBoc().toString('base64'),
+            publicKey: args.publicKey.toString('hex')
+        },
+        proof: {
+            name: 'ton_proof',
+            proof: {
+                timestamp: args.timestamp,
+                domain: { lengthBytes: Buffer.byteLength(args.domain, 'utf-8'), value: args.domain },
+                payload: args.payload,
+                signature: args.signature.toString('base64')
+            }
+        }
+    };
+}
+
+/**
+ * Verifies a ton_proof against the public key from the account's state init. Doesn't
+ * make network requests, so only wallets supported by this library are accepted.
+ */
+export function verifyTonProof(
+    reply: { account: TonConnectAccount, proof: TonProofItemReply | TonProofItemReply['proof'] },
+    opts: { allowedDomains: string[], validAuthTime?: number, now?: number, testOnly?: boolean }
+): TonProofVerification {
+    const proof = 'name' in reply.proof ? reply.proof.proof : reply.proof;
+    const account = reply.account;
+
+    // Network
+    const expectedChain = opts.testOnly ? '-3' : '-239';
+    if (account.chain !== expectedChain) {
+        return { valid: false, reason: `Account is on chain ${account.chain}, expected ${expectedChain}` };
+    }
+
+    // Domain
+    if (proof.domain.lengthBytes !== Buffer.byteLength(proof.domain.value, 'utf-8')) {
+        return { valid: false, reason: 'Domain length doesn\'t match its value' };
+    }
+    if (!opts.allowedDomains.includes(proof.domain.value)) {
+        return { valid: false, reason: `Domain '${proof.domain.value}' is not allowed` };
+    }
+
+    // Timestamp
+    const now = opts.now ?? Math.floor(Date.now() / 1000);
+    if (Math.abs(now - proof.timestamp) > (opts.validAuthTime ?? 15 * 60)) {
+        return { valid: false, reason: 'Proof timestamp is not fresh' };
+    }
+
+    // Wallet
+    let address: Address;
+    let parsed: ReturnType<typeof parseInit>;
+    try {
+        address = Address.parseRaw(account.address);
+        const init = loadStateInit(Cell.fromBase64(account.walletStateInit).beginParse());
+        if (!contractAddress(address.workChain, init).equals(address)) {
+            return { valid: false, reason: 'State init doesn\'t match the address' };
+        }
+        parsed = parseInit(init);
+    } catch (e) {
+        return { valid: false, reason: 'Account is malformed' };
+    }
+    if (!parsed) {
+        return { valid: false, reason: 'Wallet contract is not supported' };
+    }
+    if (account.publicKey !== undefined && account.publicKey.toLowerCase() !== parsed.publicKey.toString('hex')) {
+        return { valid: false, reason: 'Public key doesn\'t match the state init' };
+    }
+
+    // Signature
+    const hash = tonProofHash(address, proof.domain.value, proof.timestamp, proof.payload);
+    const signature = Buffer.from(proof.signature, 'base64');
+    if (signature.length !== 64 || !signVerify(hash, signature, parsed.publicKey)) {
+        return { valid: false, reason: 'Signature is invalid' };
+    }
+
+    return { valid: true, address, publicKey: parsed.publicKey, walletVersion: parsed.walletVersion };
+}
@@ -0,0 +1,89 @@
+import { Address, beginCell, toNano } from '@ton/core';
+import { getCapabilities } from './capabilities';
+import { validateSignData, validateTransaction } from './validation';
+
+const ADDRESS = Address.parse('EQBNVUFfKt2QgqKL5vZvnyP50wmniCFP2ASOKAE-g2noRDlR');
+
+const TRANSFER = {
+    to: ADDRESS,
+    sendMode: 3,
+    seqno: 1,
+    timeout: 1700000000,
+    bounce: true,
+    amount: toNano('1')
+};
+
+describe('validation', () => {
+    it('should accept valid transactions', () => {
+        expect(validateTransaction({ ...TRANSFER, payload: { type: 'comment', text: 'Hello world' } })).toEqual([]);
+        expect(validateTransaction({ seqno: 1, timeout: 1700000000, messages: Array(10).fill(TRANSFER) }, { walletVersion: 'v5r1' })).toEqual([]);
+    });
+
+    it('should report invalid fields', () => {
+        expect(validateTransaction({ ...TRANSFER, seqno: -1, timeout: 1.5, sendMode: 256, amount: -1n })).toEqual([
+            { field: 'seqno', message: 'Must be an integer between 0 and 4294967295' },
+            { field: 'timeout', message: 'Must be an integer between 0 and 4294967295' },
+            { field: 'amount', message: 'Must be a non-negative bigint under 2^120' },
+            { field: 'sendMode', message: 'Must be an integer between 0 and 255' }
+        ]);
+        expect(validateTransaction({ seqno: 1, timeout: 1700000000, messages: Array(5).fill(TRANSFER) })).toEqual([
+            { field: 'messages', message: 'Wallet v4 supports at most 4 messages per transfer' }
+        ]);
+    });
+
+    it('should check comments', () => {
+        expect(validateTransaction({ ...TRANSFER, payload: { type: 'comment', text: 'Привет' } })).toEqual([
+            { field: 'payload.text', message: 'Must contain only printable ASCII characters' }
+        ]);
+        expect(validateTransaction({ ...TRANSFER, payload: { type: 'comment', text: 'a'.repeat(123) } })).toEqual([]);
+        expect(validateTransaction({ seqno: 1, timeout: 1700000000, messages: [TRANSFER, { ...TRANSFER, payload: { type: 'comment', text: 'a'.repeat(124) } }] })).toEqual([
+            { field: 'messages[1].payload.text', message: 'Must be at most 123 bytes' }
+        ]);
+    });
+
+    it('should check payload fields', () => {
+        expect(validateTransaction({
+            ...TRANSFER,
+            payload: { type: 'jetton-transfer', queryId: 1n << 64n, amount: 1n << 120n, destination: ADDRESS, responseDestination: ADDRESS, customPayload: null, forwardAmount: 0n, forwardPayload: null }
+        })).toEqual([
+            { field: 'payload.queryId', message: 'Must be null or a 64-bit unsigned integer' },
+            { field: 'payload.amount', message: 'Must be a non-negative bigint under 2^120' }
+        ]);
+        expect(validateTransaction({
+            ...TRANSFER,
+            payload: { type: 'change-dns-record', queryId: null, record: { type: 'site', value: { adnlAddress: Buffer.alloc(31) } } }
+        })).toEqual([
+            { field: 'payload.record.value.adnlAddress', message: 'Must be 32 bytes long' }
+        ]);
+    });
+
+    it('should check features of the app version', () => {
+        const capabilities = getCapabilities('2.0.0', null);
+        expect(validateTransaction({ ...TRANSFER, payload: { type: 'excesses', queryId: null } }, { walletVersion: 'v5r1', capabilities })).toEqual([
+            { field: 'walletVersion', message: 'Wallet version \'v5r1\' is not supported by the installed TON app' },
+            { field: 'payload.type', message: 'Payload type \'excesses\' is not supported by the installed TON app' }
+        ]);
+        expect(validateTransaction(TRANSFER, { subwalletId: 1, capabilities })).toEqual([
+            { field: 'subwalletId', message: 'Custom subwallet id is not supported by the installed TON app' }
+        ]);
+        expect(validateTransaction(TRANSFER, { chain: -1, subwalletId: 698983190, capabilities })).toEqual([]);
+        expect(validateSignData({ type: 'text', text: 'Hello', domain: 'ton.org' }, { capabilities })).toEqual([
+            { field: 'type', message: 'Sign data request type \'text\' is not supported by the installed TON app' }
+        ]);
+    });
+
+    it('should check sign data requests', () => {
+        expect(validateSignData({ type: 'plaintext', text: 'Hello\nworld' })).toEqual([]);
+        expect(validateSignData({ type: 'plaintext', text: 'Hello\tworld' }, { timestamp: -1 })).toEqual([
+            { field: 'timestamp', message: 'Must be a non-negative integer' },
+            { field: 'text', message: 'Must contain only printable ASCII characters and new lines' }
+        ]);
+        expect(validateSignData({ type: 'app-data', data: beginCell().endCell() })).toEqual([
+            { field: 'address', message: 'At least one of `address` and `domain` must be set' }
+        ]);
+        expect(validateSignData({ type: 'binary', bytes: Buffer.alloc(0x10000), domain: '' })).toEqual([
+            { field: 'domain', message: 'Must be a non-empty string' },
+            { field: 'bytes', message: 'Must be at most 65535 bytes' }
+        ]);
+    });
+});
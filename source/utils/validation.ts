@@ -0,0 +1,294 @@
+import { Address, Cell } from '@ton/core';
+import { ValidationError, ValidationIssue } from '../errors';
+import { SignDataRequest, TonPayloadFormat, TonTransactionMessage } from '../TonTransport';
+import { TonAppCapabilities } from './capabilities';
+import { getWalletId, maxSubwalletId, WalletVersion } from './getInit';
+import { serializePayload } from './serializePayload';
+
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+const MAX_UINT64 = (1n << 64n) - 1n;
+const MAX_COINS = (1n << 120n) - 1n;
+// Comment is stored in a single cell after the 32-bit op
+export const MAX_COMMENT_BYTES = 123;
+const MAX_DOMAIN_LENGTH = 255;
+
+function isPrintableAscii(text: string, allowNewLines = false) {
+    for (let i = 0; i < text.length; i++) {
+        const c = text.charCodeAt(i);
+        if ((c < 0x20 || c > 0x7e) && !(allowNewLines && c === 0x0a)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+class Checker {
+    readonly issues: ValidationIssue[] = [];
+
+    add(field: string, message: string) {
+        this.issues.push({ field, message });
+    }
+
+    uint32(field: string, value: number) {
+        if (!Number.isInteger(value) || value < 0 || value > MAX_UINT32) {
+            this.add(field, 'Must be an integer between 0 and 4294967295');
+        }
+    }
+
+    queryId(field: string, value: bigint | null) {
+        if (value !== null && (typeof value !== 'bigint' || value < 0n || value > MAX_UINT64)) {
+            this.add(field, 'Must be null or a 64-bit unsigned integer');
+        }
+    }
+
+    coins(field: string, value: bigint) {
+        if (typeof value !== 'bigint' || value < 0n || value > MAX_COINS) {
+            this.add(field, 'Must be a non-negative bigint under 2^120');
+        }
+    }
+
+    address(field: string, value: Address) {
+        if (!Address.isAddress(value)) {
+            this.add(field, 'Must be an Address');
+        } else if (value.workChain !== 0 && value.workChain !== -1) {
+            this.add(field, 'Workchain must be 0 or -1');
+        }
+    }
+
+    cell(field: string, value: Cell | null, optional: boolean) {
+        if (value === null ? !optional : !(value instanceof Cell)) {
+            this.add(field, optional ? 'Must be null or a Cell' : 'Must be a Cell');
+        }
+    }
+
+    domain(field: string, value: string) {
+        if (typeof value !== 'string' || value.length === 0) {
+            this.add(field, 'Must be a non-empty string');
+        } else if (!isPrintableAscii(value)) {
+            this.add(field, 'Must contain only printable ASCII characters');
+        } else if (value.length > MAX_DOMAIN_LENGTH) {
+            this.add(field, `Must be at most ${MAX_DOMAIN_LENGTH} characters`);
+        }
+    }
+}
+
+function checkPayload(c: Checker, prefix: string, payload: TonPayloadFormat) {
+    const f = (name: string) => `${prefix}.${name}`;
+    const before = c.issues.length;
+    switch (payload.type) {
+        case 'comment':
+            if (typeof payload.text !== 'string') {
+                c.add(f('text'), 'Must be a string');
+            } else if (!isPrintableAscii(payload.text)) {
+                c.add(f('text'), 'Must contain only printable ASCII characters');
+            } else if (Buffer.byteLength(payload.text) > MAX_COMMENT_BYTES) {
+                c.add(f('text'), `Must be at most ${MAX_COMMENT_BYTES} bytes`);
+            }
+            break;
+        case 'jetton-transfer':
+        case 'nft-transfer':
+            c.queryId(f('queryId'), payload.queryId);
+            if (payload.type === 'jetton-transfer') {
+                c.coins(f('amount'), payload.amount);
+                c.address(f('destination'), payload.destination);
+            } else {
+                c.address(f('newOwner'), payload.newOwner);
+            }
+            c.address(f('responseDestination'), payload.responseDestination);
+            c.cell(f('customPayload'), payload.customPayload, true);
+            c.coins(f('forwardAmount'), payload.forwardAmount);
+            c.cell(f('forwardPayload'), payload.forwardPayload, true);
+            break;
+        case 'jetton-burn':
+            c.queryId(f('queryId'), payload.queryId);
+            c.coins(f('amount'), payload.amount);
+            c.address(f('responseDestination'), payload.responseDestination);
+            c.cell(f('customPayload'), payload.customPayload, true);
+            break;
+        case 'change-dns-record': {
+            c.queryId(f('queryId'), payload.queryId);
+            const record = payload.record;
+            if (record.type === 'wallet' && record.value) {
+                c.address(f('record.value.address'), record.value.address);
+            } else if (record.type === 'site' && record.value && record.value.adnlAddress?.length !== 32) {
+                c.add(f('record.value.adnlAddress'), 'Must be 32 bytes long');
+            } else if (record.type === 'storage' && record.value && record.value.bagId?.length !== 32) {
+                c.add(f('record.value.bagId'), 'Must be 32 bytes long');
+            }
+            break;
+        }
+        case 'nft-prove-ownership':
+            c.queryId(f('queryId'), payload.queryId);
+            c.address(f('destination'), payload.destination);
+            c.cell(f('forwardPayload'), payload.forwardPayload, false);
+            break;
+        case 'excesses':
+            c.queryId(f('queryId'), payload.queryId);
+            break;
+        case 'single-nominator-withdraw':
+            c.queryId(f('queryId'), payload.queryId);
+            c.coins(f('amount'), payload.amount);
+            break;
+        case 'single-nominator-change-validator':
+            c.queryId(f('queryId'), payload.queryId);
+            c.address(f('address'), payload.address);
+            break;
+        case 'tonstakers-deposit':
+            c.queryId(f('queryId'), payload.queryId);
+            c.queryId(f('appId'), payload.appId);
+            break;
+        case 'tonstakers-withdraw':
+            c.queryId(f('queryId'), payload.queryId);
+            c.coins(f('amount'), payload.amount);
+            c.address(f('responseDestination'), payload.responseDestination);
+            break;
+        case 'unsafe':
+            c.cell(f('message'), payload.message, false);
+            return;
+        default:
+            c.add(f('type'), `Payload type '${(payload as any).type}' not supported`);
+            return;
+    }
+
+    // Fields are fine, check that the payload can be packed at all
+    if (c.issues.length === before) {
+        try {
+            serializePayload(payload);
+        } catch (e) {
+            // Hints are sent with 16-bit length
+            c.add(prefix, e instanceof RangeError ? 'Payload hints are too long' : (e as Error).message);
+        }
+    }
+}
+
+function checkMessage(c: Checker, prefix: string, m: TonTransactionMessage, capabilities?: TonAppCapabilities) {
+    c.address(`${prefix}to`, m.to);
+    c.coins(`${prefix}amount`, m.amount);
+    if (!Number.isInteger(m.sendMode) || m.sendMode < 0 || m.sendMode > 255) {
+        c.add(`${prefix}sendMode`, 'Must be an integer between 0 and 255');
+    }
+    if (typeof m.bounce !== 'boolean') {
+        c.add(`${prefix}bounce`, 'Must be a boolean');
+    }
+    if (m.payload) {
+        if (capabilities && !capabilities.payloadTypes.includes(m.payload.type)) {
+            c.add(`${prefix}payload.type`, `Payload type '${m.payload.type}' is not supported by the installed TON app`);
+        } else {
+            checkPayload(c, `${prefix}payload`, m.payload);
+        }
+    }
+}
+
+/**
+ * Checks a transaction against the limits of the TON app without talking to the device.
+ * Accepts the same transaction as `signTransaction` or `signMultiTransaction`, pass capabilities
+ * of the installed app to also check that it supports the requested features.
+ */
+export function validateTransaction(
+    transaction:
+        | { seqno: number, timeout: number, messages: TonTransactionMessage[] }
+        | ({ seqno: number, timeout: number } & TonTransactionMessage),
+    opts?: { chain?: number, walletVersion?: WalletVersion, subwalletId?: number, capabilities?: TonAppCapabilities }
+): ValidationIssue[] {
+    const c = new Checker();
+    const walletVersion = opts?.walletVersion ?? 'v4';
+    c.uint32('seqno', transaction.seqno);
+    c.uint32('timeout', transaction.timeout);
+    if (opts?.capabilities && !opts.capabilities.walletVersions.includes(walletVersion)) {
+        c.add('walletVersion', `Wallet version '${walletVersion}' is not supported by the installed TON app`);
+    }
+    if (opts?.subwalletId !== undefined) {
+        const max = maxSubwalletId(walletVersion);
+        if (!Number.isInteger(opts.subwalletId) || opts.subwalletId < 0 || opts.subwalletId > max) {
+            c.add('subwalletId', `Must be an integer between 0 and ${max}`);
+        } else if (opts.capabilities && walletVersion === 'v4' && opts.subwalletId !== getWalletId(opts.chain ?? 0, 'v4') && !opts.capabilities.subwalletId) {
+            c.add('subwalletId', 'Custom subwallet id is not supported by the installed TON app');
+        }
+    }
+
+    if (!('messages' in transaction)) {
+        checkMessage(c, '', transaction, opts?.capabilities);
+        return c.issues;
+    }
+    const maxMessages = walletVersion === 'v5r1' ? 255 : 4;
+    if (transaction.messages.length === 0) {
+        c.add('messages', 'At least one message is required');
+    } else if (transaction.messages.length > maxMessages) {
+        c.add('messages', `Wallet ${walletVersion} supports at most ${maxMessages} messages per transfer`);
+    } else if (transaction.messages.length > 1 && opts?.capabilities && !opts.capabilities.multipleMessages) {
+        c.add('messages', 'Multiple messages are not supported by the installed TON app');
+    }
+    transaction.messages.forEach((m, i) => checkMessage(c, `messages[${i}].`, m, opts?.capabilities));
+    return c.issues;
+}
+
+/**
+ * Checks a sign data request against the limits of the TON app without talking to the device
+ */
+export function validateSignData(req: SignDataRequest, opts?: { timestamp?: number, capabilities?: TonAppCapabilities }): ValidationIssue[] {
+    const c = new Checker();
+    if (opts?.timestamp !== undefined && (!Number.isSafeInteger(opts.timestamp) || opts.timestamp < 0)) {
+        c.add('timestamp', 'Must be a non-negative integer');
+    }
+    if (opts?.capabilities && !opts.capabilities.signDataSchemas.includes(req.type)) {
+        c.add('type', `Sign data request type '${req.type}' is not supported by the installed TON app`);
+        return c.issues;
+    }
+    switch (req.type) {
+        case 'plaintext':
+            if (typeof req.text !== 'string') {
+                c.add('text', 'Must be a string');
+            } else if (!isPrintableAscii(req.text, true)) {
+                c.add('text', 'Must contain only printable ASCII characters and new lines');
+            }
+            break;
+        case 'app-data':
+            if (req.address === undefined && req.domain === undefined) {
+                c.add('address', 'At least one of `address` and `domain` must be set');
+            }
+            if (req.address !== undefined) {
+                c.address('address', req.address);
+            }
+            if (req.domain !== undefined) {
+                c.domain('domain', req.domain);
+            }
+            c.cell('data', req.data, false);
+            if (req.ext !== undefined) {
+                c.cell('ext', req.ext, false);
+            }
+            break;
+        case 'text':
+            c.domain('domain', req.domain);
+            if (typeof req.text !== 'string') {
+                c.add('text', 'Must be a string');
+            } else if (Buffer.byteLength(req.text, 'utf-8') > MAX_UINT16) {
+                c.add('text', `Must be at most ${MAX_UINT16} bytes`);
+            }
+            break;
+        case 'binary':
+            c.domain('domain', req.domain);
+            if (!Buffer.isBuffer(req.bytes)) {
+                c.add('bytes', 'Must be a Buffer');
+            } else if (req.bytes.length > MAX_UINT16) {
+                c.add('bytes', `Must be at most ${MAX_UINT16} bytes`);
+            }
+            break;
+        case 'cell':
+            c.domain('domain', req.domain);
+            if (typeof req.schema !== 'string' || req.schema.length === 0) {
+                c.add('schema', 'Must be a non-empty string');
+            }
+            c.cell('cell', req.cell, false);
+            break;
+        default:
+            c.add('type', `Sign data request type '${(req as any).type}' not supported`);
+    }
+    return c.issues;
+}
+
+export function assertValid(issues: ValidationIssue[]) {
+    if (issues.length > 0) {
+        throw new ValidationError(issues);
+    }
+}